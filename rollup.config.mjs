@@ -71,6 +71,36 @@ const build_es_lib = () => ({
   },
 });
 
+const build_headless = () => ({
+  input: 'src/headless.ts',
+  output: [
+    {
+      file: 'dist/headless.js',
+      format: 'cjs',
+    },
+    {
+      file: 'dist/headless.es.js',
+      format: 'es',
+    },
+  ],
+  plugins: [
+    resolve(),
+    commonjs(),
+    json(),
+    typescript({
+      declaration: false,
+      exclude: ['src/example/*'],
+    }),
+    babel({
+      babelHelpers: 'bundled',
+    }),
+  ],
+  onwarn: (warning, warn) => {
+    if (warning.code === 'CIRCULAR_DEPENDENCY') return;
+    warn(warning);
+  },
+});
+
 const build_es_theme = () => {
   const themeBaseDir = 'src/themes';
   const themes = fs.readdirSync(path.resolve(themeBaseDir));
@@ -156,6 +186,7 @@ const build_serve = () => {
 const configs = {
   umd: build_umd(),
   es_lib: build_es_lib(),
+  headless: build_headless(),
   es_theme: build_es_theme(),
   serve: process.env.ENV === 'dev' ? build_serve() : undefined,
 };
@@ -6,6 +6,8 @@ import {
   EditorUI,
   EditorShortcut,
   EditorBezier,
+  EditorHistory,
+  EditorViewport,
 } from 'fabric-path-editor';
 import defaultTheme from 'fabric-path-editor/dist/themes/default';
 
@@ -117,6 +119,8 @@ const EXAMPLE_PATH_D = {
     .use(new EditorBackground())
     .use(new EditorBezier())
     .use(new EditorUI(defaultTheme))
+    .use(new EditorHistory())
+    .use(new EditorViewport())
     .use(
       new EditorShortcut([
         // 删除节点快捷键
@@ -149,6 +153,26 @@ const EXAMPLE_PATH_D = {
             editor.focus(...editor.nodes);
           },
         },
+        // 撤销
+        {
+          key: 'Z',
+          combinationKeys: ['meta'],
+          onActivate: (e) => {
+            e.preventDefault();
+
+            vizpath.find(EditorHistory)?.undo();
+          },
+        },
+        // 重做
+        {
+          key: 'Z',
+          combinationKeys: ['meta', 'shift'],
+          onActivate: (e) => {
+            e.preventDefault();
+
+            vizpath.find(EditorHistory)?.redo();
+          },
+        },
         // 取消节点选择
         {
           key: 'D',
@@ -222,6 +246,34 @@ const EXAMPLE_PATH_D = {
             reset?.();
           },
         },
+        // 切换选中节点类型（尖角 -> 平滑 -> 对称）
+        {
+          key: 'T',
+          onActivate: () => {
+            const editor = vizpath.find(Editor);
+            if (!editor || !editor.activeNodes.length) return;
+
+            const nodeTypes = ['corner', 'smooth', 'symmetric'] as const;
+            const nodeType = editor.getNodeType(editor.activeNodes[0]) ?? 'corner';
+            editor.setNodeType(nodeTypes[(nodeTypes.indexOf(nodeType) + 1) % nodeTypes.length]);
+          },
+        },
+        // 适应画布
+        {
+          key: '!',
+          combinationKeys: ['shift'],
+          onActivate: () => {
+            vizpath.find(EditorViewport)?.zoomToFit();
+          },
+        },
+        // 适应选中节点
+        {
+          key: '@',
+          combinationKeys: ['shift'],
+          onActivate: () => {
+            vizpath.find(EditorViewport)?.zoomToSelection();
+          },
+        },
       ]),
     )
     .initialize();
@@ -269,6 +321,9 @@ const EXAMPLE_PATH_D = {
   const path2 = VizPathCreator.parseFabricPath(path);
   operator.draw(path2);
 
+  // 初始绘制不计入历史记录
+  vizpath.find(EditorHistory)?.clear();
+
   operator.on('update', () => {
     const d = operator.getPathData(operator.paths);
 
@@ -0,0 +1,20 @@
+/**
+ * 无画布的路径模型入口，不依赖fabric及DOM，可在Node环境中使用
+ */
+export { default as HeadlessVizPath } from './lib/headless-vizpath.class';
+export { InstructionType, PathNodeType } from './lib/instruction';
+
+/** 纯几何的路径处理方法 */
+export { default as parsePathString } from './lib/utils/parse-path-string';
+export { default as makePathAbsolute } from './lib/utils/make-path-absolute';
+export { default as getPathSegments } from './lib/utils/get-path-segments';
+export { default as normalizeSegment } from './lib/utils/normalize-segment';
+export { default as removeSegmentNodes } from './lib/utils/remove-segment-nodes';
+export { default as reversePath } from './lib/utils/reverse-path';
+export { default as formatPathData } from './lib/utils/format-path-data';
+export { default as inferNodeType } from './lib/utils/infer-node-type';
+
+/** 必要类型导出 */
+export type { HeadlessPath } from './lib/headless-vizpath.class';
+export type { Instruction, PathNode } from './lib/instruction';
+export type { PathDataOptions } from './lib/vizpath.class';
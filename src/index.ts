@@ -1,4 +1,5 @@
 export { default as VizPathCreator } from './lib';
+export { default as HeadlessVizPath } from './lib/headless-vizpath.class';
 
 /** 编辑器模块 */
 export { default as Editor } from './lib/modules/editor/index.class';
@@ -6,10 +7,37 @@ export { default as EditorBackground } from './lib/modules/editor-background/ind
 export { default as EditorUI } from './lib/modules/editor-ui/index.class';
 export { default as EditorShortcut } from './lib/modules/editor-shortcut/index.class';
 export { default as EditorBezier } from './lib/modules/editor-bezier/index.class';
+export { default as EditorHistory } from './lib/modules/editor-history/index.class';
+export { default as EditorIntersection } from './lib/modules/editor-intersection/index.class';
+export { default as EditorTrigger } from './lib/modules/editor-trigger/index.class';
+export { default as EditorSnap } from './lib/modules/editor-snap/index.class';
+export { default as EditorGuide } from './lib/modules/editor-guide/index.class';
+export { default as EditorViewport } from './lib/modules/editor-viewport/index.class';
 
 /** 必要类型导出 */
-export type { default as VizPath } from './lib/vizpath.class';
-export type { Path, Instruction } from './lib';
+export type {
+  default as VizPath,
+  VizPathSnapshot,
+  VizPathJSON,
+  PathNodeJSON,
+  PathDataOptions,
+  HitTestOptions,
+  HitTestResult,
+  PathIntersection,
+} from './lib/vizpath.class';
+export type { Path, Instruction, PathNodeType, EditingResult } from './lib';
+export type { HeadlessPath } from './lib/headless-vizpath.class';
+export type { BooleanOperation } from './lib/utils/boolean-path';
+export type { StrokeOutlineOptions } from './lib/utils/outline-stroke';
 export type { ThemeConfigurators } from './lib/modules/editor-ui/index.class';
+export type {
+  EditorBeforeEvent,
+  EditorBeforeEventParams,
+  EditorLockType,
+  EditorAxisConstraint,
+  EditorIsolationOptions,
+} from './lib/modules/editor/index.class';
+export type { EditorSnapType, EditorSnapResult } from './lib/modules/editor-snap/index.class';
+export type { EditorGuideLine } from './lib/modules/editor-guide/index.class';
 
 export * as utils from './lib/utils';
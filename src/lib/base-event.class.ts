@@ -1,44 +1,151 @@
+type Listener = {
+  callback: (...args: any[]) => unknown;
+  /** 优先级，数值越大越先执行，相同优先级按监听顺序执行 */
+  priority: number;
+  /** 是否只执行一次 */
+  once: boolean;
+};
+
+type ListenOptions = Partial<Pick<Listener, 'priority' | 'once'>>;
+
 /**
  * 基础事件类
+ *
+ * @note 监听事件名为 * 时可以监听所有事件，回调的首个参数为触发的事件名
+ *
+ * @example
+ *
+ * const dispose = vizpath.on('draw', handler, { priority: 10 });
+ * dispose();
+ *
+ * vizpath.once('change', handler);
+ * vizpath.on('*', (eventName, ...data) => console.log(eventName, data));
  */
 class BaseEvent<Events extends Record<string, (...args: any[]) => void>> {
   /**
    * 监听事件
    */
-  events: Partial<Record<keyof Events, ((...args: any[]) => void)[]>> = {};
+  events: Partial<Record<keyof Events | '*', Listener[]>> = {};
 
   /**
    * 监听事件
    * @param eventName 事件名
    * @param callback 回调
+   * @param options 监听配置
+   * @returns 取消监听的方法
    */
-  on<Event extends keyof Events>(eventName: Event, callback: Events[Event], params?: any) {
-    this.events[eventName] = this.events[eventName] ?? [];
-    this.events[eventName]!.push(callback);
+  on<Event extends keyof Events>(
+    eventName: Event,
+    callback: Events[Event],
+    options?: ListenOptions,
+  ): () => void;
+  on(
+    eventName: '*',
+    callback: (eventName: keyof Events, ...data: any[]) => void,
+    options?: ListenOptions,
+  ): () => void;
+  on(eventName: keyof Events | '*', callback: Listener['callback'], options: ListenOptions = {}) {
+    const { priority = 0, once = false } = options;
+    const listener: Listener = { callback, priority, once };
+
+    const listeners = this.events[eventName] ?? [];
+    // 插入到同优先级监听的末尾，保持有序
+    const index = listeners.findIndex((i) => i.priority < priority);
+    listeners.splice(index === -1 ? listeners.length : index, 0, listener);
+    this.events[eventName] = listeners;
+
+    return () => {
+      const listeners = this.events[eventName];
+      const index = listeners?.indexOf(listener) ?? -1;
+      if (index !== -1) listeners!.splice(index, 1);
+    };
   }
 
   /**
-   * 取消监听事件
+   * 监听事件，回调只执行一次
    * @param eventName 事件名
    * @param callback 回调
+   * @param options 监听配置
+   * @returns 取消监听的方法
+   */
+  once<Event extends keyof Events>(
+    eventName: Event,
+    callback: Events[Event],
+    options?: Omit<ListenOptions, 'once'>,
+  ): () => void;
+  once(
+    eventName: '*',
+    callback: (eventName: keyof Events, ...data: any[]) => void,
+    options?: Omit<ListenOptions, 'once'>,
+  ): () => void;
+  once(
+    eventName: keyof Events | '*',
+    callback: Listener['callback'],
+    options: Omit<ListenOptions, 'once'> = {},
+  ) {
+    return this.on(eventName as '*', callback, { ...options, once: true });
+  }
+
+  /**
+   * 取消监听事件
+   * @param eventName 事件名
+   * @param callback 回调，不传则取消该事件的所有监听
    */
-  off<Event extends keyof Events>(eventName: Event, callback?: Events[Event], params?: any) {
-    if (!callback) delete this.events[eventName];
+  off<Event extends keyof Events>(eventName: Event, callback?: Events[Event]): void;
+  off(eventName: '*', callback?: (eventName: keyof Events, ...data: any[]) => void): void;
+  off(eventName: keyof Events | '*', callback?: Listener['callback']) {
+    if (!callback) {
+      delete this.events[eventName];
+      return;
+    }
 
-    const handlers = this.events[eventName];
-    if (!handlers) return;
+    const listeners = this.events[eventName];
+    if (!listeners) return;
 
-    const index = handlers.indexOf(callback as (typeof handlers)[number]);
-    if (index !== -1) handlers.splice(index, 1);
+    const index = listeners.findIndex((i) => i.callback === callback);
+    if (index !== -1) listeners.splice(index, 1);
+  }
+
+  /**
+   * 获取本次触发需要执行的回调，一次性的监听会同时被移除
+   */
+  private _takeHandlers(eventName: keyof Events) {
+    const collect = (key: keyof Events | '*') =>
+      (this.events[key] ?? []).map((listener) => ({ key, listener }));
+
+    // 同优先级时具体事件的监听先于通配监听执行
+    const items = [...collect(eventName), ...(eventName === '*' ? [] : collect('*'))].sort(
+      (a, b) => b.listener.priority - a.listener.priority,
+    );
+
+    return items.map(({ key, listener }) => {
+      if (listener.once) {
+        const listeners = this.events[key];
+        const index = listeners?.indexOf(listener) ?? -1;
+        if (index !== -1) listeners!.splice(index, 1);
+      }
+
+      return key === '*'
+        ? (...data: any[]) => listener.callback(eventName, ...data)
+        : listener.callback;
+    });
   }
 
   /**
    * 触发编辑器事件
    */
   fire<Event extends keyof Events>(eventName: Event, ...data: Parameters<Events[Event]>) {
-    const handlers = this.events[eventName];
-    if (!handlers) return;
-    for (const callback of handlers) callback(...data);
+    for (const handler of this._takeHandlers(eventName)) handler(...data);
+  }
+
+  /**
+   * 触发编辑器事件，并按顺序等待返回Promise的回调执行完成
+   */
+  async emitAsync<Event extends keyof Events>(
+    eventName: Event,
+    ...data: Parameters<Events[Event]>
+  ) {
+    for (const handler of this._takeHandlers(eventName)) await handler(...data);
   }
 }
 
@@ -0,0 +1,336 @@
+import { v4 as uuid } from 'uuid';
+import { InstructionType, type Instruction, type PathNode } from './instruction';
+import buildSegmentNodes from './utils/build-segment-nodes';
+import formatPathData, { type FormatPathDataOptions } from './utils/format-path-data';
+import getCloseCommands from './utils/get-close-commands';
+import getPathSegments from './utils/get-path-segments';
+import getReplaceCommands from './utils/get-replace-commands';
+import linkSegments from './utils/link-segments';
+import makePathAbsolute from './utils/make-path-absolute';
+import normalizeSegment from './utils/normalize-segment';
+import parsePathString from './utils/parse-path-string';
+import removeSegmentNodes from './utils/remove-segment-nodes';
+import reverseSegmentNodes from './utils/reverse-segment-nodes';
+import updateSegmentNodes, { type SegmentUpdateCommand } from './utils/update-segment-nodes';
+
+export type HeadlessPath = {
+  segment: PathNode[];
+};
+
+/**
+ * 无画布的路径模型，不依赖fabric及DOM，可在Node环境中使用
+ *
+ * @note
+ *
+ * ① 路径节点的约定（起始指令、闭合重叠点、节点标识等）与 VizPath 一致，相同操作得到相同的指令结果
+ *
+ * ② 没有路径对象也就没有变换，所有指令都处于解析时路径字符串的坐标系中
+ *
+ * @example
+ *
+ * const headless = new HeadlessVizPath();
+ * const [path] = headless.draw(HeadlessVizPath.parsePathData('M 0 0 L 50 50 L 100 0'));
+ * headless.remove(path.segment[1]);
+ * headless.getPathData(); // 'M 0 0 L 100 0'
+ */
+class HeadlessVizPath {
+  /**
+   * 路径信息
+   */
+  paths: HeadlessPath[] = [];
+
+  /**
+   * 通过路径指令获取路径信息
+   *
+   * @param d 路径指令信息
+   * @example
+   *
+   * const paths = HeadlessVizPath.parsePathData('M 0 0 L 100 100');
+   */
+  static parsePathData(d: string) {
+    const instructions = makePathAbsolute(parsePathString(d));
+
+    const paths: HeadlessPath[] = getPathSegments(instructions)
+      .filter((segment) => segment.length)
+      .map((segment) => {
+        normalizeSegment(segment);
+
+        const _segment: PathNode[] = [];
+        segment.forEach((instruction) => {
+          _segment.push({
+            segment: _segment,
+            instruction,
+          });
+        });
+
+        return { segment: _segment };
+      });
+
+    return paths;
+  }
+
+  /**
+   * 获取指令列表所在的路径
+   */
+  getPath(segment: PathNode[]) {
+    return this.paths.find((i) => i.segment === segment);
+  }
+
+  /**
+   * 通过节点标识获取路径节点
+   */
+  getNodeById(id: string) {
+    for (const { segment } of this.paths) {
+      const pathNode = segment.find((i) => i.id === id);
+      if (pathNode) return pathNode;
+    }
+  }
+
+  /**
+   * 是否是闭合路径段
+   * @param segment 路径段
+   */
+  isClosePath(segment: PathNode[]) {
+    return segment[segment.length - 1]?.instruction[0] === InstructionType.CLOSE;
+  }
+
+  /**
+   * 是否是路径端点
+   */
+  isTerminalNode(node: PathNode) {
+    // 闭合路径必然不存在端点
+    if (this.isClosePath(node.segment)) return false;
+
+    const index = node.segment.indexOf(node);
+
+    return index === 0 || index === node.segment.length - 1;
+  }
+
+  /**
+   * 添加路径，已存在的路径则重新分配节点标识
+   */
+  draw(paths: HeadlessPath[]) {
+    paths.forEach((path) => {
+      const { segment } = path;
+
+      segment.forEach((pathNode, index) => {
+        // 分配节点标识，闭合重叠点与起始点共用同一标识
+        const isStartSyncPoint = segment[index + 1]?.instruction[0] === InstructionType.CLOSE;
+        if (isStartSyncPoint && segment[0].id) pathNode.id = segment[0].id;
+        if (!pathNode.id) pathNode.id = uuid();
+      });
+
+      if (this.paths.indexOf(path) === -1) this.paths.push(path);
+    });
+
+    return paths;
+  }
+
+  /**
+   * 清除路径
+   */
+  clear(segment: PathNode[]) {
+    const index = this.paths.findIndex((i) => i.segment === segment);
+    if (index === -1) return;
+
+    this.paths.splice(index, 1);
+  }
+
+  /**
+   * 清除所有路径
+   */
+  clearAll() {
+    this.paths.length = 0;
+  }
+
+  /**
+   * 使用新的路径信息替换旧路径，多个路径段则会使原路径拆分成多个
+   */
+  replacePathSegments(path: HeadlessPath, segments: Instruction[][]) {
+    const newPath = buildSegmentNodes(path.segment, segments).map((segment, index) => {
+      if (index === 0) {
+        path.segment = segment;
+        return path;
+      }
+      return { segment };
+    });
+
+    return this.draw(newPath);
+  }
+
+  /**
+   * 移除路径节点
+   *
+   * @note
+   *
+   * ① 只有一个删除节点时，删除节点前后线段，连接前后节点
+   * ② 有多个删除节点，仅删除节点间的线段，中间节点同时也会被移除
+   */
+  remove(...pathNodes: PathNode[]) {
+    const segmentIndexMap = pathNodes.reduce((maps, pathNode) => {
+      const { segment } = pathNode;
+      if (!this.getPath(segment)) return maps;
+
+      const indexes = maps.get(segment) ?? [];
+      indexes.push(segment.indexOf(pathNode));
+      maps.set(segment, indexes);
+
+      return maps;
+    }, new Map<PathNode[], number[]>([]));
+
+    segmentIndexMap.forEach((indexes, segment) => {
+      const path = this.getPath(segment)!;
+      const segments = removeSegmentNodes(
+        segment.map((i) => i.instruction),
+        indexes,
+      );
+      if (segments.length) this.replacePathSegments(path, segments);
+      else this.clear(segment);
+    });
+  }
+
+  /**
+   * 新增路径指令
+   * @param path 路径
+   * @param index 插入位置
+   * @param instruction 新指令
+   */
+  insert(path: HeadlessPath, index: number, instruction: Instruction) {
+    this._updatePathByCommands(path, [{ type: 'add', index, instruction }]);
+
+    return path.segment[index];
+  }
+
+  /**
+   * 在节点前新增路径指令
+   */
+  insertBeforeNode(pathNode: PathNode, instruction: Instruction) {
+    const path = this.getPath(pathNode.segment);
+    if (!path) return;
+
+    return this.insert(path, path.segment.indexOf(pathNode), instruction);
+  }
+
+  /**
+   * 在节点后新增路径指令
+   */
+  insertAfterNode(pathNode: PathNode, instruction: Instruction) {
+    const path = this.getPath(pathNode.segment);
+    if (!path) return;
+
+    return this.insert(path, path.segment.indexOf(pathNode) + 1, instruction);
+  }
+
+  /**
+   * 替换路径节点所在指令
+   *
+   * @note 路径节点的引用不会发生变化
+   */
+  replace(pathNode: PathNode, instruction: Instruction) {
+    const { segment } = pathNode;
+
+    const path = this.getPath(segment);
+    if (!path) return;
+
+    const { index, commands } = getReplaceCommands(
+      segment.map((i) => i.instruction),
+      segment.indexOf(pathNode),
+      instruction,
+    );
+    this._updatePathByCommands(path, commands);
+
+    return path.segment[index];
+  }
+
+  /**
+   * 闭合路径
+   */
+  close(pathNode: PathNode) {
+    const path = this.getPath(pathNode.segment);
+    if (!path) return;
+
+    const commands = getCloseCommands(path.segment.map((i) => i.instruction));
+    if (commands.length) this._updatePathByCommands(path, commands);
+  }
+
+  /**
+   * 连接两个路径端点，同一路径的首尾端点会闭合路径，不同路径则拼接为一条路径
+   *
+   * @returns 合并点，无法连接时返回undefined
+   */
+  link(source: PathNode, target: PathNode) {
+    if (source === target) return;
+    if (!this.isTerminalNode(source) || !this.isTerminalNode(target)) return;
+
+    const sourcePath = this.getPath(source.segment);
+    const targetPath = this.getPath(target.segment);
+    if (!sourcePath || !targetPath) return;
+
+    // 自身合并，直接加'z'闭合指令即可
+    if (sourcePath === targetPath) {
+      this.close(source);
+      return target;
+    }
+
+    const {
+      source: sourceInstructions,
+      target: targetInstructions,
+      ids,
+      nodeTypes,
+      joinIndex,
+    } = linkSegments(source, target);
+
+    this.clear(targetPath.segment);
+    const [newPath] = this.replacePathSegments(sourcePath, [
+      sourceInstructions.concat(targetInstructions),
+    ]);
+    newPath.segment.forEach((pathNode, index) => {
+      pathNode.id = ids[index];
+      pathNode.nodeType = nodeTypes[index];
+    });
+
+    return newPath.segment[joinIndex];
+  }
+
+  /**
+   * 反转路径方向，节点标识及类型跟随反转
+   */
+  reverse(path: HeadlessPath) {
+    const { instructions, ids, nodeTypes } = reverseSegmentNodes(path.segment);
+
+    const [newPath] = this.replacePathSegments(path, [instructions]);
+    newPath.segment.forEach((pathNode, index) => {
+      pathNode.id = ids[index];
+      pathNode.nodeType = nodeTypes[index];
+    });
+
+    return newPath;
+  }
+
+  /**
+   * 提取当前路径的信息
+   *
+   * @param paths 路径列表
+   * @param options 导出配置，传入数字时作为数值精度
+   */
+  getPathData(
+    paths: HeadlessPath[] = this.paths,
+    options: number | Partial<FormatPathDataOptions> = 3,
+  ) {
+    return formatPathData(
+      paths.map(({ segment }) => segment.map((i) => i.instruction)),
+      typeof options === 'number' ? { precision: options } : options,
+    );
+  }
+
+  /**
+   * 通过更新命令更新路径
+   */
+  private _updatePathByCommands(path: HeadlessPath, commands: SegmentUpdateCommand[]) {
+    updateSegmentNodes(path.segment, commands);
+
+    return this.draw([path]);
+  }
+}
+
+export default HeadlessVizPath;
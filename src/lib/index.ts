@@ -2,35 +2,38 @@ import { fabric } from 'fabric';
 import cloneDeep from 'lodash-es/cloneDeep';
 import defaults from 'lodash-es/defaults';
 import VizPath from './vizpath.class';
-import { clearPathOffset, loadSVGToPathFromURL, parsePathJSON, repairPath } from '@utils';
+import type { VizPathJSON } from './vizpath.class';
+import {
+  clearPathOffset,
+  getPathSegments,
+  loadSVGToPathFromURL,
+  makePathAbsolute,
+  normalizeSegment,
+  objectToPath,
+  parsePathJSON,
+  repairPath,
+} from '@utils';
 import type EditorModule from './modules/base.class';
+import { InstructionType, type Instruction, type PathNode } from './instruction';
 
-/** 指令类型 */
-export enum InstructionType {
-  START = 'M',
-  LINE = 'L',
-  QUADRATIC_CURCE = 'Q',
-  BEZIER_CURVE = 'C',
-  CLOSE = 'Z',
-}
-
-export type Instruction = [InstructionType, ...number[]];
-
-export type PathNode<T extends Crood = Crood> = {
-  segment: PathNode<T>[];
-  instruction: Instruction;
-  node?: T;
-  curveDots?: Partial<{
-    pre: T;
-    next: T;
-  }>;
-};
+export { InstructionType, PathNodeType, type Instruction, type PathNode } from './instruction';
 
 export type Path = {
   segment: PathNode[];
   pathObject: fabric.Path;
 }[];
 
+export type EditingResult = {
+  /** 源对象，非路径对象或所有路径都被删除时已从画布中移除 */
+  source: fabric.Object;
+  /** 写回的路径对象，源对象为路径时即为源对象本身 */
+  target: fabric.Path;
+  /** 写回源路径对象的路径指令，所有路径都被删除时为空字符串 */
+  d: string;
+  /** 提交前编辑路径的导出数据 */
+  json: VizPathJSON;
+};
+
 type VizPathOptions = {
   /**
    * 触发路径更新状态的时机
@@ -55,6 +58,11 @@ class VizPathCreator {
 
   vizpath: VizPath | null = null;
 
+  /**
+   * 正在编辑的源对象、写回的路径对象及源对象编辑前的可见状态
+   */
+  private _editing: { source: fabric.Object; target: fabric.Path; visible: boolean } | null = null;
+
   /**
    * 增强模块列表
    */
@@ -79,7 +87,7 @@ class VizPathCreator {
      * 第一步：拆分组合路径， 如 new fabric.Path('M 0 0 L 10 10 z M 20 20 L 40 40 z')
      */
     const instructions = cloneDeep(pathObject.path as unknown as Instruction[]);
-    const segments = VizPath.getPathSegments(instructions).map((segment) => {
+    const segments = getPathSegments(instructions).map((segment) => {
       // 为每个子路径分配新建的路径对象
       const pathObject = new fabric.Path((fabric.util as any).joinPath(segment), styles);
 
@@ -112,45 +120,10 @@ class VizPathCreator {
       clearPathOffset(pathObject);
       repairPath(pathObject);
 
-      // ② 修正头指令，头指令必须是M开始指令，其他的也没效果
-      if (segment[0][0] !== InstructionType.START) {
-        segment[0] = [
-          InstructionType.START,
-          ...segment[0].slice(segment[0].length - 2),
-        ] as Instruction;
-      }
-
-      // ③ 闭合指令的字母全改为大小以保证统一处理
-      if (segment[segment.length - 1][0].toUpperCase() === InstructionType.CLOSE) {
-        segment[segment.length - 1][0] = InstructionType.CLOSE;
-      }
-
-      // ④ 小于两个点的闭合路径直接解除闭合
-      if (segment.length <= 2 && segment[segment.length - 1][0] === InstructionType.CLOSE) {
-        segment.pop();
-      }
-
-      // ⑤ 闭合的路径如果在闭合指令前没有回到起始点，补充一条回到起始点的指令
-      const isAutoClose = segment[segment.length - 1][0] === InstructionType.CLOSE;
-      if (isAutoClose) {
-        const startPoint = segment[0].slice(segment[0].length - 2);
-        const endPoint = segment[segment.length - 2].slice(segment[segment.length - 2].length - 2);
-        if (
-          // 如果路径只有一个起始点且闭合[M,Z]
-          segment[0] === segment[segment.length - 2] ||
-          // 或者路径闭合但是最后一个路径节点不完全等于起始点
-          endPoint[0] !== startPoint[0] ||
-          endPoint[1] !== startPoint[1]
-        ) {
-          segment.splice(segment.length - 1, 0, [
-            InstructionType.LINE,
-            startPoint[0],
-            startPoint[1],
-          ] as Instruction);
-        }
-      }
+      // ② 修正头指令、闭合指令，并补充闭合前回到起始点的指令
+      normalizeSegment(segment);
 
-      // ⑤ 创建path
+      // ③ 创建path
       const _segment: PathNode[] = [];
       segment.forEach((instruction) => {
         _segment.push({
@@ -184,9 +157,52 @@ class VizPathCreator {
         top: 0,
       }),
     );
+    // fabric会将椭圆弧指令转为曲线，需要使用保留椭圆弧的指令替换
+    path.path = makePathAbsolute((fabric.util as any).parsePath(d)) as unknown as fabric.Point[];
     return this.parseFabricPath(path);
   }
 
+  /**
+   * 通过 vizpath.toJSON 导出的数据还原路径信息，路径节点、布局及样式均与导出时保持一致
+   *
+   * @param json 导出数据
+   * @example
+   *
+   * const paths = VizPathCreator.fromJSON(vizpath.toJSON());
+   * vizpath.draw(paths);
+   */
+  static fromJSON(json: VizPathJSON) {
+    const path: Path = json.paths.map((item) => {
+      const { pathOffset, ...layout } = item.layout;
+
+      const segment: PathNode[] = [];
+      item.segment.forEach(({ id, nodeType, instruction }) => {
+        segment.push({
+          id,
+          nodeType,
+          segment,
+          instruction: cloneDeep(instruction),
+        });
+      });
+
+      const instructions = segment.map((i) => i.instruction);
+      const pathObject = new fabric.Path((fabric.util as any).joinPath(instructions), {
+        ...cloneDeep(item.styles),
+        ...layout,
+      });
+
+      // 构造时会重新计算尺寸和偏移，需要还原为导出时的状态才能保持位置一致
+      pathObject.set({ width: layout.width, height: layout.height });
+      pathObject.pathOffset = new fabric.Point(pathOffset.x, pathOffset.y);
+      pathObject.path = instructions as unknown as fabric.Point[];
+      pathObject.setCoords();
+
+      return { segment, pathObject };
+    });
+
+    return path;
+  }
+
   /**
    * 通过svg文件链接加载并获取Editor路径信息
    *
@@ -221,6 +237,133 @@ class VizPathCreator {
     return paths;
   }
 
+  /**
+   * 进入编辑状态，编辑期间源对象会被隐藏，提交时再将编辑结果写回
+   *
+   * @param target 源对象，支持 path、rect、circle、ellipse、polygon、polyline
+   *
+   * @note
+   *
+   * ① 已有正在编辑的对象时会先提交
+   *
+   * ② 编辑期间源对象除可见状态外不会被修改，取消编辑即可完全还原
+   *
+   * ③ 非路径的源对象提交时会被替换为路径对象
+   *
+   * @example
+   *
+   * const vizpath = await creator.enterEditing(fabricPath);
+   * vizpath.on('commit', ({ d }) => console.log(d));
+   * // 确定
+   * creator.commit();
+   * // 取消
+   * creator.cancel();
+   */
+  async enterEditing(target: fabric.Object) {
+    const pathObject = target.type === 'path' ? (target as fabric.Path) : objectToPath(target);
+    if (!pathObject) {
+      throw new TypeError(`Unsupported object type '${target.type}' for editing.`);
+    }
+
+    const vizpath = await this.initialize();
+
+    if (this._editing) this.commit();
+    vizpath.clearAll();
+
+    vizpath.draw(VizPathCreator.parseFabricPath(pathObject));
+
+    this._editing = {
+      source: target,
+      target: pathObject,
+      visible: target.visible ?? true,
+    };
+    target.set({ visible: false });
+    target.canvas?.requestRenderAll();
+
+    vizpath.fire('enterEditing', target);
+
+    return vizpath;
+  }
+
+  /**
+   * 编辑已有的路径对象，等同于 enterEditing
+   */
+  async edit(pathObject: fabric.Path) {
+    return this.enterEditing(pathObject);
+  }
+
+  /**
+   * 是否处于编辑状态
+   */
+  get isEditing() {
+    return !!this._editing;
+  }
+
+  /**
+   * 提交编辑，将编辑结果合并写回源对象并结束编辑
+   *
+   * @returns 编辑结果，未处于编辑状态时返回undefined
+   *
+   * @note
+   *
+   * ① 写回的路径对象保持源对象原有的位置、变换及样式
+   *
+   * ② 非路径的源对象会在画布中被替换为写回的路径对象
+   *
+   * ③ 所有路径都被删除时源对象会从画布中移除
+   */
+  commit() {
+    const vizpath = this.vizpath;
+    const editing = this._editing;
+    if (!vizpath || !editing) return;
+
+    this._editing = null;
+
+    const { source, target, visible } = editing;
+    const json = vizpath.toJSON();
+
+    source.set({ visible });
+    target.set({ visible });
+    const written = vizpath.writeTo(target);
+
+    const canvas = source.canvas;
+    if (canvas && (!written || target !== source)) {
+      if (written) canvas.insertAt(target, canvas.getObjects().indexOf(source), false);
+      canvas.remove(source);
+    }
+
+    vizpath.clearAll();
+
+    const result: EditingResult = {
+      source,
+      target,
+      d: written ? (fabric.util as any).joinPath(target.path) : '',
+      json,
+    };
+    vizpath.fire('commit', result);
+
+    return result;
+  }
+
+  /**
+   * 取消编辑，丢弃所有修改并还原源对象
+   */
+  cancel() {
+    const vizpath = this.vizpath;
+    const editing = this._editing;
+    if (!vizpath || !editing) return;
+
+    this._editing = null;
+
+    const { source, visible } = editing;
+    source.set({ visible });
+    source.canvas?.requestRenderAll();
+
+    vizpath.clearAll();
+
+    vizpath.fire('cancel', source);
+  }
+
   /**
    * 添加拓展模块
    */
@@ -0,0 +1,39 @@
+/** 指令类型 */
+export enum InstructionType {
+  START = 'M',
+  LINE = 'L',
+  QUADRATIC_CURCE = 'Q',
+  BEZIER_CURVE = 'C',
+  ARC = 'A',
+  CLOSE = 'Z',
+}
+
+export type Instruction = [InstructionType, ...number[]];
+
+/** 路径节点类型 */
+export enum PathNodeType {
+  /** 尖角节点，两侧曲线变换点相互独立 */
+  CORNER = 'corner',
+  /** 平滑节点，两侧曲线变换点保持共线，长度可不同 */
+  SMOOTH = 'smooth',
+  /** 对称节点，两侧曲线变换点保持共线且等长 */
+  SYMMETRIC = 'symmetric',
+}
+
+export type PathNode<T extends Crood = Crood> = {
+  /**
+   * 节点唯一标识，绘制时自动分配，在替换、插入、连接等操作中保持不变
+   */
+  id?: string;
+  /**
+   * 节点类型，未设置时会在绘制时根据两侧曲线变换点推断，之后在重绘、导出和快照中保持不变
+   */
+  nodeType?: `${PathNodeType}`;
+  segment: PathNode<T>[];
+  instruction: Instruction;
+  node?: T;
+  curveDots?: Partial<{
+    pre: T;
+    next: T;
+  }>;
+};
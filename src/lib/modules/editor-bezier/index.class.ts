@@ -349,7 +349,12 @@ class EditorBezier extends EditorModule {
         for (const item of segment) {
           let points: Crood[] = [];
 
-          if ([InstructionType.START, InstructionType.CLOSE].includes(item.instruction[0]))
+          // 椭圆弧暂不支持拆分
+          if (
+            [InstructionType.START, InstructionType.CLOSE, InstructionType.ARC].includes(
+              item.instruction[0],
+            )
+          )
             continue;
           if (item.instruction[0] === InstructionType.LINE) {
             const { pre } = vizpath.getNeighboringNodes(item, true);
@@ -0,0 +1,478 @@
+import { fabric } from 'fabric';
+import { v4 as uuid } from 'uuid';
+import defaults from 'lodash-es/defaults';
+import EditorModule from '../base.class';
+import Editor, { EditorSymbolType } from '../editor/index.class';
+import EditorUI, { type ThemeDecorator } from '../editor-ui/index.class';
+import { deepIterateGroup } from '@utils';
+import type VizPath from '../../vizpath.class';
+
+export type EditorGuideLine = {
+  /** 参考线方向，x 为竖直参考线（横坐标对齐），y 为水平参考线（纵坐标对齐） */
+  axis: 'x' | 'y';
+  /** 参考线所在的坐标值 */
+  value: number;
+  /** 参考线起点坐标 */
+  from: number;
+  /** 参考线终点坐标 */
+  to: number;
+  /** 拖拽对象与最近对齐目标之间的距离 */
+  distance: number;
+  /** 拖拽对象与最近对齐目标之间中点的坐标，用于放置距离标签 */
+  center: number;
+};
+
+type EditorGuideOptions = {
+  /**
+   * 参考线的UI key值配置
+   * @default 'guide'
+   */
+  guideKey: string;
+  /**
+   * 距离标签的UI key值配置
+   * @default 'guideLabel'
+   */
+  labelKey: string;
+  /**
+   * 对齐判定距离，以屏幕像素为单位，不受画布缩放影响
+   * @default 1
+   */
+  tolerance: number;
+  /**
+   * 是否与其他路径节点对齐
+   * @default true
+   */
+  nodes: boolean;
+  /**
+   * 是否与所在路径的包围盒边缘及中心对齐
+   * @default true
+   */
+  bounds: boolean;
+  /**
+   * 是否显示距离标签
+   * @default true
+   */
+  labels: boolean;
+};
+
+const DEFAULT_OPTIONS: EditorGuideOptions = {
+  guideKey: 'guide',
+  labelKey: 'guideLabel',
+  tolerance: 1,
+  nodes: true,
+  bounds: true,
+  labels: true,
+};
+
+/**
+ * 编辑器智能参考线模块，拖拽节点时在与其他节点或所在路径包围盒边缘、中心对齐的位置显示参考线及距离标签
+ *
+ * @note
+ *
+ * ① 参考线及距离标签样式可在UI模块中通过 guide 及 guideLabel 配置，没配置默认使用洋红色
+ *
+ * ② 多选节点整体拖拽时以选中节点的包围盒边缘及中心进行对齐
+ *
+ * ③ 参考线只做展示不修正位置，需要吸附时可配合吸附模块使用
+ *
+ * @example
+ *
+ * vizpath
+ * .use(new Editor(fabricCanvas))
+ * .use(new EditorGuide({ labels: false }))
+ *
+ * vizpath.find(EditorGuide)?.on('guide', (guides) => {
+ *   console.log(guides.length);
+ * });
+ */
+class EditorGuide extends EditorModule<{
+  guide: (guides: EditorGuideLine[]) => void;
+}> {
+  static ID = 'editor-guide';
+
+  options: EditorGuideOptions;
+
+  /** 当前显示的参考线 */
+  guides: EditorGuideLine[] = [];
+
+  /** 参考线对象 */
+  lines: fabric.Line[] = [];
+
+  /** 距离标签对象 */
+  labels: fabric.Object[] = [];
+
+  /** 参考线原始的线宽及虚线样式，按画布缩放比例换算后保持屏幕上的尺寸不变 */
+  private _lineStyles = new WeakMap<
+    fabric.Object,
+    Pick<fabric.Object, 'strokeWidth' | 'strokeDashArray'>
+  >();
+
+  /**
+   * 本次拖拽的对齐参考信息，拖拽开始时记录，拖拽过程中保持不变
+   */
+  private _dragContext: {
+    target: fabric.Object;
+    objects: fabric.Object[];
+    targetCroods: Crood[];
+  } | null = null;
+
+  constructor(options: Partial<EditorGuideOptions> = {}) {
+    super();
+
+    this.options = defaults(options, DEFAULT_OPTIONS);
+  }
+
+  /**
+   * 创建参考线或距离标签对象
+   */
+  private _createObject<T extends fabric.Object>(themeKey: string, defaultTheme: () => T) {
+    const ui = this.vizpath?.context.find(EditorUI);
+    const theme = ui?.theme?.[themeKey] ?? defaultTheme;
+
+    let decorated = false;
+
+    const decorator: ThemeDecorator<fabric.Object> = (customObject, callback) => {
+      customObject.set({
+        name: uuid(),
+        hasBorders: false,
+        hasControls: false,
+        // 参考线仅用于展示，不响应交互
+        evented: false,
+        selectable: false,
+        originX: 'center',
+        originY: 'center',
+      });
+
+      deepIterateGroup(customObject, (object) => {
+        object.set({
+          objectCaching: false,
+        });
+      });
+
+      if (ui && callback) {
+        ui.objectPreRenderCallbackMap.set(customObject, callback);
+      }
+
+      decorated = true;
+
+      return customObject;
+    };
+
+    let object = theme(decorator);
+    if (!decorated) object = decorator(object);
+
+    return object as T;
+  }
+
+  /**
+   * 获取节点对象的画布绝对位置
+   */
+  private _getObjectCrood(object: fabric.Object): Crood | undefined {
+    const editor = this.vizpath?.context.find(Editor);
+    const node = editor?.objectNodeMap.get(object)?.node;
+    if (!editor || !node) return;
+
+    const { left, top } = editor.calcAbsolutePosition(
+      node,
+      editor.nodePathMap.get(node)!.pathObject,
+    );
+    return { x: left, y: top };
+  }
+
+  /**
+   * 获取包围盒边缘中点、角点及中心共9个参考点
+   */
+  private _getBoundsCroods(croods: Crood[]): Crood[] {
+    if (!croods.length) return [];
+
+    const xs = croods.map((i) => i.x);
+    const ys = croods.map((i) => i.y);
+    const left = Math.min(...xs);
+    const right = Math.max(...xs);
+    const top = Math.min(...ys);
+    const bottom = Math.max(...ys);
+
+    const result: Crood[] = [];
+    [left, (left + right) / 2, right].forEach((x) => {
+      [top, (top + bottom) / 2, bottom].forEach((y) => result.push({ x, y }));
+    });
+    return result;
+  }
+
+  /**
+   * 获取路径对象包围盒的画布绝对参考点
+   */
+  private _getPathBoundsCroods(pathObject: fabric.Path) {
+    const editor = this.vizpath!.context.find(Editor)!;
+    const { pathOffset, width = 0, height = 0 } = pathObject;
+
+    const corners = [
+      { x: pathOffset.x - width / 2, y: pathOffset.y - height / 2 },
+      { x: pathOffset.x + width / 2, y: pathOffset.y - height / 2 },
+      { x: pathOffset.x - width / 2, y: pathOffset.y + height / 2 },
+      { x: pathOffset.x + width / 2, y: pathOffset.y + height / 2 },
+    ].map((crood) => {
+      const { left, top } = editor.calcAbsolutePosition(crood, pathObject);
+      return { x: left, y: top };
+    });
+
+    return this._getBoundsCroods(corners);
+  }
+
+  /**
+   * 记录拖拽开始时的对齐目标
+   */
+  private _createDragContext(target: fabric.Object) {
+    const editor = this.vizpath!.context.find(Editor)!;
+
+    const objects =
+      target.type === 'activeSelection'
+        ? (target as fabric.ActiveSelection)
+            .getObjects()
+            .filter((object) => object[Editor.symbol] === EditorSymbolType.NODE)
+        : [target];
+
+    const targetCroods: Crood[] = [];
+
+    if (this.options.nodes) {
+      editor.nodes.forEach((object) => {
+        if (objects.includes(object)) return;
+        const crood = this._getObjectCrood(object);
+        if (crood) targetCroods.push(crood);
+      });
+    }
+
+    if (this.options.bounds) {
+      const pathObjects = new Set<fabric.Path>();
+      objects.forEach((object) => {
+        const node = editor.objectNodeMap.get(object)?.node;
+        const pathObject = node && editor.nodePathMap.get(node)?.pathObject;
+        if (pathObject) pathObjects.add(pathObject);
+      });
+      pathObjects.forEach((pathObject) => {
+        targetCroods.push(...this._getPathBoundsCroods(pathObject));
+      });
+    }
+
+    return { target, objects, targetCroods };
+  }
+
+  /**
+   * 计算当前拖拽位置下的参考线
+   */
+  private _calcGuides(movingCroods: Crood[], targetCroods: Crood[], tolerance: number) {
+    const guides: EditorGuideLine[] = [];
+
+    (['x', 'y'] as const).forEach((axis) => {
+      const crossAxis = axis === 'x' ? 'y' : 'x';
+
+      // 按目标坐标值归组，同一坐标值只显示一条参考线
+      const groups = new Map<number, { moving: Crood[]; targets: Crood[] }>();
+      targetCroods.forEach((target) => {
+        const moving = movingCroods.filter(
+          (crood) => Math.abs(crood[axis] - target[axis]) <= tolerance,
+        );
+        if (!moving.length) return;
+
+        const value = Math.round(target[axis] * 1000) / 1000;
+        const group = groups.get(value) ?? { moving: [], targets: [] };
+        moving.forEach((crood) => {
+          if (!group.moving.includes(crood)) group.moving.push(crood);
+        });
+        group.targets.push(target);
+        groups.set(value, group);
+      });
+
+      groups.forEach(({ moving, targets }, value) => {
+        const values = [...moving, ...targets].map((crood) => crood[crossAxis]);
+
+        let distance = Infinity;
+        let center = 0;
+        moving.forEach((m) => {
+          targets.forEach((t) => {
+            const d = Math.abs(m[crossAxis] - t[crossAxis]);
+            if (d >= distance) return;
+            distance = d;
+            center = (m[crossAxis] + t[crossAxis]) / 2;
+          });
+        });
+
+        guides.push({
+          axis,
+          value,
+          from: Math.min(...values),
+          to: Math.max(...values),
+          distance,
+          center,
+        });
+      });
+    });
+
+    return guides;
+  }
+
+  /**
+   * 更新参考线及距离标签的显示
+   */
+  private _render(guides: EditorGuideLine[]) {
+    const canvas = this.vizpath?.context.find(Editor)?.canvas;
+    if (!canvas) return;
+
+    const zoom = canvas.getZoom();
+
+    while (this.lines.length < guides.length) {
+      this.lines.push(
+        this._createObject(
+          this.options.guideKey,
+          () =>
+            new fabric.Line([0, 0, 0, 0], {
+              stroke: '#f5427b',
+              strokeWidth: 1,
+            }),
+        ),
+      );
+    }
+
+    // 距离为0时节点与目标重合，不显示标签
+    const labelGuides = this.options.labels ? guides.filter((i) => i.distance > 0) : [];
+    while (this.labels.length < labelGuides.length) {
+      this.labels.push(
+        this._createObject(
+          this.options.labelKey,
+          () =>
+            new fabric.Text('', {
+              fontSize: 10,
+              fontFamily: 'sans-serif',
+              fill: '#ffffff',
+              backgroundColor: '#f5427b',
+            }),
+        ),
+      );
+    }
+
+    this.lines.forEach((line, index) => {
+      const guide = guides[index];
+      if (!guide) {
+        canvas.remove(line);
+        return;
+      }
+
+      if (!this._lineStyles.has(line)) {
+        this._lineStyles.set(line, {
+          strokeWidth: line.strokeWidth,
+          strokeDashArray: line.strokeDashArray,
+        });
+      }
+      const { strokeWidth = 1, strokeDashArray } = this._lineStyles.get(line)!;
+
+      const { axis, value, from, to } = guide;
+      line.set({
+        ...(axis === 'x'
+          ? { x1: value, y1: from, x2: value, y2: to }
+          : { x1: from, y1: value, x2: to, y2: value }),
+        strokeWidth: strokeWidth / zoom,
+        strokeDashArray: strokeDashArray?.map((i) => i / zoom),
+      });
+      line.setCoords();
+      if (!line.canvas) canvas.add(line);
+      else line.bringToFront();
+    });
+
+    this.labels.forEach((label, index) => {
+      const guide = labelGuides[index];
+      if (!guide) {
+        canvas.remove(label);
+        return;
+      }
+
+      // 标签显示在拖拽对象与最近对齐目标之间的中点
+      const { axis, value, distance, center } = guide;
+      label.set({
+        text: String(Math.round(distance)),
+        left: axis === 'x' ? value : center,
+        top: axis === 'x' ? center : value,
+        scaleX: 1 / zoom,
+        scaleY: 1 / zoom,
+      } as Partial<fabric.Text>);
+      label.setCoords();
+      if (!label.canvas) canvas.add(label);
+      else label.bringToFront();
+    });
+  }
+
+  private _handleMoving(target: fabric.Object) {
+    const editor = this.vizpath?.context.find(Editor);
+    const canvas = editor?.canvas;
+    if (!editor || !canvas) return;
+
+    if (this._dragContext?.target !== target) {
+      this._dragContext = this._createDragContext(target);
+    }
+
+    const { objects, targetCroods } = this._dragContext;
+    const croods = objects.map((object) => this._getObjectCrood(object)).filter(Boolean) as Crood[];
+    const movingCroods = objects.length > 1 ? this._getBoundsCroods(croods) : croods;
+
+    const guides = this._calcGuides(
+      movingCroods,
+      targetCroods,
+      this.options.tolerance / canvas.getZoom(),
+    );
+    this.guides = guides;
+
+    this._render(guides);
+
+    this.fire('guide', guides);
+  }
+
+  /**
+   * 清除参考线
+   */
+  clear() {
+    this._dragContext = null;
+
+    [...this.lines, ...this.labels].forEach((object) => object.canvas?.remove(object));
+
+    if (!this.guides.length) return;
+    this.guides = [];
+    this.fire('guide', []);
+  }
+
+  unload() {
+    this.clear();
+
+    const ui = this.vizpath?.context.find(EditorUI);
+    [...this.lines, ...this.labels].forEach((object) => {
+      ui?.objectPreRenderCallbackMap.delete(object);
+    });
+    this.lines = [];
+    this.labels = [];
+    this._lineStyles = new WeakMap();
+  }
+
+  load(vizpath: VizPath) {
+    const editor = vizpath.context.find(Editor);
+    if (!editor) {
+      throw new TypeError('Please use editor module before using guide module.');
+    }
+
+    editor.addCanvasEvent('object:moving', (event: fabric.IEvent) => {
+      const target = event.target;
+      if (!target) return;
+
+      const isNode = target[Editor.symbol] === EditorSymbolType.NODE;
+      const isNodeSelection =
+        target.type === 'activeSelection' &&
+        (target as fabric.ActiveSelection)
+          .getObjects()
+          .some((object) => object[Editor.symbol] === EditorSymbolType.NODE);
+      if (!isNode && !isNodeSelection) return;
+
+      this._handleMoving(target);
+    });
+    editor.addCanvasEvent('mouse:up', () => this.clear());
+    editor.addCanvasEvent('selection:cleared', () => this.clear());
+  }
+}
+
+export default EditorGuide;
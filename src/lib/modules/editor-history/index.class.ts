@@ -0,0 +1,220 @@
+import isEqual from 'lodash-es/isEqual';
+import defaults from 'lodash-es/defaults';
+import EditorModule from '../base.class';
+import Editor from '../editor/index.class';
+import type VizPath from '../../vizpath.class';
+import type { VizPathSnapshot } from '../../vizpath.class';
+
+type EditorHistoryOptions = {
+  /**
+   * 最大可撤销的历史记录数量
+   * @default 50
+   */
+  depth: number;
+};
+
+const DEFAULT_OPTIONS: EditorHistoryOptions = {
+  depth: 50,
+};
+
+/**
+ * 编辑器历史记录模块，记录路径的每一次变更并支持撤销/重做
+ *
+ * @note 鼠标按下期间（如节点拖拽）的所有变更只会合并成一条历史记录
+ *
+ * @example
+ *
+ * vizpath
+ * .use(new Editor(fabricCanvas))
+ * .use(new EditorHistory({ depth: 100 }))
+ *
+ * const history = vizpath.find(EditorHistory);
+ * history.undo();
+ * history.redo();
+ */
+class EditorHistory extends EditorModule<{
+  change: (history: EditorHistory) => void;
+}> {
+  static ID = 'editor-history';
+
+  options: EditorHistoryOptions;
+
+  /** 撤销栈 */
+  undoStack: VizPathSnapshot[] = [];
+
+  /** 重做栈 */
+  redoStack: VizPathSnapshot[] = [];
+
+  /** 当前状态快照 */
+  private _current: VizPathSnapshot = [];
+
+  /** 是否正在应用历史记录（此时的变更不再记录） */
+  private _applying = false;
+
+  /** 鼠标是否处于按下状态 */
+  private _pointerDown = false;
+
+  /** 是否存在待提交的变更 */
+  private _pending = false;
+
+  constructor(options: Partial<EditorHistoryOptions> = {}) {
+    super();
+
+    this.options = defaults(options, DEFAULT_OPTIONS);
+  }
+
+  get canUndo() {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo() {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * 判断两个快照是否一致
+   */
+  private _isSameSnapshot(a: VizPathSnapshot, b: VizPathSnapshot) {
+    if (a.length !== b.length) return false;
+    return a.every((item, index) => {
+      const target = b[index];
+      return (
+        item.pathObject === target.pathObject &&
+        isEqual(item.instructions, target.instructions) &&
+        isEqual(item.nodeTypes, target.nodeTypes) &&
+        isEqual(item.layout, target.layout)
+      );
+    });
+  }
+
+  /**
+   * 标记变更，同一轮同步操作中的多次变更会在微任务中合并提交
+   *
+   * @note 如需明确将多个操作合并为一条记录，可使用 vizpath.transaction
+   */
+  private _record() {
+    if (this._applying) return;
+    if (this._pending) return;
+
+    this._pending = true;
+    Promise.resolve().then(() => {
+      // 鼠标按下期间延迟到鼠标举起时再提交
+      if (this._pointerDown) return;
+      this._commit();
+    });
+  }
+
+  /**
+   * 提交变更到历史记录
+   */
+  private _commit() {
+    this._pending = false;
+
+    const vizpath = this.vizpath;
+    if (!vizpath) return;
+
+    const snapshot = vizpath.snapshot();
+    if (this._isSameSnapshot(this._current, snapshot)) return;
+
+    this.undoStack.push(this._current);
+    if (this.undoStack.length > this.options.depth) {
+      this.undoStack.splice(0, this.undoStack.length - this.options.depth);
+    }
+    this.redoStack.length = 0;
+    this._current = snapshot;
+
+    this.fire('change', this);
+  }
+
+  /**
+   * 应用快照
+   */
+  private _apply(snapshot: VizPathSnapshot) {
+    const vizpath = this.vizpath;
+    if (!vizpath) return;
+
+    this._applying = true;
+    vizpath.restore(snapshot);
+    this._applying = false;
+
+    this._current = vizpath.snapshot();
+  }
+
+  /**
+   * 撤销
+   */
+  undo() {
+    if (this._pending) this._commit();
+
+    const snapshot = this.undoStack.pop();
+    if (!snapshot) return false;
+
+    this.redoStack.push(this._current);
+    this._apply(snapshot);
+
+    this.fire('change', this);
+    return true;
+  }
+
+  /**
+   * 重做
+   */
+  redo() {
+    if (this._pending) this._commit();
+
+    const snapshot = this.redoStack.pop();
+    if (!snapshot) return false;
+
+    this.undoStack.push(this._current);
+    this._apply(snapshot);
+
+    this.fire('change', this);
+    return true;
+  }
+
+  /**
+   * 清空历史记录，以当前状态作为初始状态
+   */
+  clear() {
+    this.undoStack.length = 0;
+    this.redoStack.length = 0;
+    this._pending = false;
+    this._current = this.vizpath?.snapshot() ?? [];
+
+    this.fire('change', this);
+  }
+
+  unload() {
+    this.undoStack.length = 0;
+    this.redoStack.length = 0;
+    this._current = [];
+    this._applying = false;
+    this._pointerDown = false;
+    this._pending = false;
+  }
+
+  load(vizpath: VizPath) {
+    this._current = vizpath.snapshot();
+
+    vizpath.on('change', this._record.bind(this));
+
+    // 每次编辑的历史记录相互独立
+    vizpath.on('enterEditing', this.clear.bind(this));
+    vizpath.on('commit', this.clear.bind(this));
+    vizpath.on('cancel', this.clear.bind(this));
+
+    // 拖拽等鼠标按下期间的变更合并为一条记录
+    const editor = vizpath.context.find(Editor);
+    if (!editor) return;
+
+    editor.addCanvasEvent('mouse:down:before', () => {
+      this._pointerDown = true;
+    });
+    editor.addCanvasEvent('mouse:up', () => {
+      this._pointerDown = false;
+      if (this._pending) this._commit();
+    });
+  }
+}
+
+export default EditorHistory;
@@ -0,0 +1,212 @@
+import { fabric } from 'fabric';
+import { v4 as uuid } from 'uuid';
+import defaults from 'lodash-es/defaults';
+import EditorModule from '../base.class';
+import Editor from '../editor/index.class';
+import EditorUI, { type ThemeDecorator } from '../editor-ui/index.class';
+import { deepIterateGroup } from '@utils';
+import type VizPath from '../../vizpath.class';
+import type { PathIntersection } from '../../vizpath.class';
+
+type EditorIntersectionOptions = {
+  /**
+   * 相交标记的UI key值配置
+   * @default 'intersection'
+   */
+  markerKey: string;
+  /**
+   * 是否检测路径自身的相交
+   * @default true
+   */
+  self: boolean;
+  /**
+   * 是否检测不同路径之间的相交
+   * @default false
+   */
+  cross: boolean;
+};
+
+const DEFAULT_OPTIONS: EditorIntersectionOptions = {
+  markerKey: 'intersection',
+  self: true,
+  cross: false,
+};
+
+/**
+ * 编辑器相交标记模块，路径变更后在所有相交点处显示标记
+ *
+ * @note 标记样式可在UI模块中通过 intersection 配置，没配置默认使用红色圆环
+ *
+ * @example
+ *
+ * vizpath
+ * .use(new Editor(fabricCanvas))
+ * .use(new EditorIntersection({ cross: true }))
+ *
+ * vizpath.find(EditorIntersection)?.on('detect', (intersections) => {
+ *   console.log(intersections.length);
+ * });
+ */
+class EditorIntersection extends EditorModule<{
+  detect: (intersections: PathIntersection[]) => void;
+}> {
+  static ID = 'editor-intersection';
+
+  options: EditorIntersectionOptions;
+
+  /** 当前检测到的所有相交点 */
+  intersections: PathIntersection[] = [];
+
+  /** 相交标记对象 */
+  markers: fabric.Object[] = [];
+
+  /** 是否存在待执行的检测 */
+  private _pending = false;
+
+  /** 取消路径事件监听 */
+  private _disposers: (() => void)[] = [];
+
+  constructor(options: Partial<EditorIntersectionOptions> = {}) {
+    super();
+
+    this.options = defaults(options, DEFAULT_OPTIONS);
+  }
+
+  /**
+   * 创建相交标记
+   */
+  private _createMarker(vizpath: VizPath) {
+    const ui = vizpath.context.find(EditorUI);
+    const markerTheme =
+      ui?.theme?.[this.options.markerKey] ??
+      (() =>
+        new fabric.Circle({
+          radius: 4,
+          fill: 'transparent',
+          stroke: '#ff4d4f',
+          strokeWidth: 1.5,
+        }));
+
+    let decorated = false;
+
+    const decorator: ThemeDecorator<fabric.Object> = (customObject, callback) => {
+      customObject.set({
+        name: uuid(),
+        hasBorders: false,
+        hasControls: false,
+        // 标记仅用于展示，不响应交互
+        evented: false,
+        selectable: false,
+        originX: 'center',
+        originY: 'center',
+      });
+
+      deepIterateGroup(customObject, (object) => {
+        object.set({
+          objectCaching: false,
+        });
+      });
+
+      if (ui && callback) {
+        ui.objectPreRenderCallbackMap.set(customObject, callback);
+      }
+
+      decorated = true;
+
+      return customObject;
+    };
+
+    let object = markerTheme(decorator);
+    if (!decorated) object = decorator(object);
+
+    return object as fabric.Object;
+  }
+
+  /**
+   * 重新检测所有相交点并更新标记
+   */
+  refresh() {
+    this._pending = false;
+
+    const vizpath = this.vizpath;
+    if (!vizpath) return;
+
+    const canvas = vizpath.context.find(Editor)?.canvas;
+    if (!canvas) return;
+
+    const { self, cross } = this.options;
+    const { paths } = vizpath;
+
+    const intersections: PathIntersection[] = [];
+    paths.forEach((path, index) => {
+      if (self) intersections.push(...vizpath.getSelfIntersections(path));
+      if (cross) {
+        paths.slice(index + 1).forEach((otherPath) => {
+          intersections.push(...vizpath.getIntersections(path, otherPath));
+        });
+      }
+    });
+    this.intersections = intersections;
+
+    // 复用已有的标记对象，多余的移除
+    while (this.markers.length < intersections.length) {
+      this.markers.push(this._createMarker(vizpath));
+    }
+    this.markers.splice(intersections.length).forEach((marker) => this._removeMarker(marker));
+
+    intersections.forEach(({ point }, index) => {
+      const marker = this.markers[index];
+      marker.set({ left: point.x, top: point.y });
+      marker.setCoords();
+      if (!marker.canvas) canvas.add(marker);
+      else marker.bringToFront();
+    });
+
+    canvas.requestRenderAll();
+
+    this.fire('detect', intersections);
+  }
+
+  /**
+   * 合并同一轮同步操作中的多次变更后再检测
+   */
+  private _schedule() {
+    if (this._pending) return;
+
+    this._pending = true;
+    Promise.resolve().then(() => {
+      if (this._pending) this.refresh();
+    });
+  }
+
+  private _removeMarker(marker: fabric.Object) {
+    const ui = this.vizpath?.context.find(EditorUI);
+    ui?.objectPreRenderCallbackMap.delete(marker);
+    marker.canvas?.remove(marker);
+  }
+
+  unload() {
+    this._disposers.forEach((dispose) => dispose());
+    this._disposers = [];
+    this._pending = false;
+    this.markers.forEach((marker) => this._removeMarker(marker));
+    this.markers = [];
+    this.intersections = [];
+  }
+
+  load(vizpath: VizPath) {
+    const editor = vizpath.context.find(Editor);
+    if (!editor) {
+      throw new TypeError('Please use editor module before using intersection module.');
+    }
+
+    this._disposers.push(
+      vizpath.on('change', this._schedule.bind(this)),
+      vizpath.on('clearAll', this._schedule.bind(this)),
+    );
+
+    this._schedule();
+  }
+}
+
+export default EditorIntersection;
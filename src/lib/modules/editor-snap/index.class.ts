@@ -0,0 +1,411 @@
+import { fabric } from 'fabric';
+import defaults from 'lodash-es/defaults';
+import EditorModule from '../base.class';
+import Editor, { EditorSymbolType } from '../editor/index.class';
+import EditorBackground from '../editor-background/index.class';
+import { InstructionType, type PathNode } from '../../instruction';
+import type VizPath from '../../vizpath.class';
+import type { ResponsiveCrood } from '../../vizpath.class';
+
+/**
+ * 吸附目标类型
+ *
+ * node 其他路径节点，midpoint 路径指令的中点，angle 相邻节点的角度增量，outline 路径轮廓，grid 网格
+ */
+export type EditorSnapType = 'node' | 'midpoint' | 'angle' | 'outline' | 'grid';
+
+export type EditorSnapResult = {
+  type: EditorSnapType;
+  /** 吸附后的画布绝对位置 */
+  position: Position;
+};
+
+type EditorSnapOptions = {
+  /**
+   * 吸附距离，以屏幕像素为单位，不受画布缩放影响
+   * @default 6
+   */
+  tolerance: number;
+  /**
+   * 是否吸附网格
+   * @default true
+   */
+  grid: boolean;
+  /**
+   * 网格尺寸，不设置时与背景模块的网格保持一致，没有背景模块时为50
+   */
+  gridSize?: number;
+  /**
+   * 是否吸附其他路径节点
+   * @default true
+   */
+  nodes: boolean;
+  /**
+   * 是否吸附路径指令的中点
+   * @default true
+   */
+  midpoints: boolean;
+  /**
+   * 是否吸附相邻节点的角度增量
+   * @default true
+   */
+  angles: boolean;
+  /**
+   * 角度增量
+   * @default 15
+   */
+  angleStep: number;
+  /**
+   * 是否吸附路径轮廓
+   * @default true
+   */
+  outlines: boolean;
+  /**
+   * 按住时暂停吸附的按键，设为空字符串则不可暂停
+   * @default 'ctrl'
+   */
+  modifierKey: 'alt' | 'ctrl' | 'shift' | 'meta' | '';
+};
+
+const DEFAULT_OPTIONS: EditorSnapOptions = {
+  tolerance: 6,
+  grid: true,
+  nodes: true,
+  midpoints: true,
+  angles: true,
+  angleStep: 15,
+  outlines: true,
+  modifierKey: 'ctrl',
+};
+
+/**
+ * 编辑器吸附模块，拖拽节点、曲线变换点及添加模式下添加节点时，吸附到网格、其他节点、指令中点、路径轮廓及相邻节点的角度增量上
+ *
+ * @note
+ *
+ * ① 多个目标同时满足时按 节点 > 中点 > 角度 > 轮廓 > 网格 的优先级吸附
+ *
+ * ② 多选节点整体拖拽时不吸附，避免选中节点间的相对位置被破坏
+ *
+ * @example
+ *
+ * vizpath
+ * .use(new Editor(fabricCanvas))
+ * .use(new EditorSnap({ grid: false, angleStep: 45 }))
+ *
+ * vizpath.find(EditorSnap)?.on('snap', (result) => {
+ *   console.log(result?.type);
+ * });
+ */
+class EditorSnap extends EditorModule<{
+  snap: (result: EditorSnapResult | null) => void;
+}> {
+  static ID = 'editor-snap';
+
+  options: EditorSnapOptions;
+
+  /** 是否按住了暂停吸附的按键 */
+  private _suspended = false;
+
+  /** 是否正在拖拽，拖拽期间的变更只来自拖拽对象 */
+  private _dragging = false;
+
+  /**
+   * 指令中点缓存，拖拽期间只有拖拽对象相关的指令会发生变化，而这些指令本身不参与吸附，因此整个拖拽过程可以复用
+   */
+  private _midpoints: Map<PathNode, Crood> | null = null;
+
+  /** 取消编辑器事件监听 */
+  private _disposers: (() => void)[] = [];
+
+  constructor(options: Partial<EditorSnapOptions> = {}) {
+    super();
+
+    this.options = defaults(options, DEFAULT_OPTIONS);
+  }
+
+  /**
+   * 获取路径节点的画布绝对位置
+   */
+  private _getCanvasCrood(pathNode: PathNode<ResponsiveCrood>): Crood | undefined {
+    const editor = this.vizpath?.context.find(Editor);
+    const pathObject = this.vizpath?.getPath(pathNode.segment)?.pathObject;
+    if (!editor || !pathObject || !pathNode.node) return;
+
+    const { left, top } = editor.calcAbsolutePosition(pathNode.node, pathObject);
+    return { x: left, y: top };
+  }
+
+  /**
+   * 获取拖拽对象的吸附参考信息
+   *
+   * @returns pathNode 拖拽对象所属的路径节点，anchors 角度吸附的参考点，excludes 随拖拽变化而不参与吸附的指令
+   */
+  private _getSnapContext(object?: fabric.Object) {
+    const vizpath = this.vizpath!;
+    const editor = vizpath.context.find(Editor)!;
+
+    let pathNode: PathNode<ResponsiveCrood> | undefined;
+    const anchors: PathNode<ResponsiveCrood>[] = [];
+
+    switch (object?.[Editor.symbol]) {
+      case EditorSymbolType.NODE: {
+        pathNode = editor.objectNodeMap.get(object);
+        if (pathNode) {
+          const { pre, next } = vizpath.getNeighboringNodes(pathNode);
+          if (pre) anchors.push(pre);
+          if (next && next !== pre) anchors.push(next);
+        }
+        break;
+      }
+      case EditorSymbolType.CURVE_DOT:
+        pathNode = editor.curveDots.find((i) => i.point === object)?.pathNode;
+        if (pathNode) anchors.push(pathNode);
+        break;
+      default: {
+        // 添加节点时新节点会与当前选中的节点相连
+        const activeNode =
+          editor.activeNodes.length === 1
+            ? editor.objectNodeMap.get(editor.activeNodes[0])
+            : undefined;
+        if (activeNode) anchors.push(activeNode);
+        break;
+      }
+    }
+
+    const excludes: PathNode[] = [];
+    if (pathNode) {
+      const { pre, next } = vizpath.getNeighboringInstructions(pathNode);
+      excludes.push(pathNode);
+      if (next) excludes.push(next);
+      // 闭合路径的起始点同时是闭合重叠点指令的终点
+      if (pre && pathNode.instruction[0] === InstructionType.START) excludes.push(pre);
+    }
+
+    return {
+      pathNode,
+      anchors: anchors.map((i) => this._getCanvasCrood(i)).filter(Boolean) as Crood[],
+      excludes,
+    };
+  }
+
+  /**
+   * 计算吸附位置
+   *
+   * @param position 画布绝对位置
+   * @param object 拖拽的节点或曲线变换点对象，添加节点时不传
+   * @returns 吸附结果，没有满足的吸附目标时返回undefined
+   */
+  snap(position: Position, object?: fabric.Object): EditorSnapResult | undefined {
+    const vizpath = this.vizpath;
+    const canvas = vizpath?.context.find(Editor)?.canvas;
+    if (!vizpath || !canvas) return;
+
+    const { nodes, midpoints, angles, angleStep, outlines, grid } = this.options;
+    const tolerance = this.options.tolerance / canvas.getZoom();
+    const point = { x: position.left, y: position.top };
+    const { pathNode, anchors, excludes } = this._getSnapContext(object);
+
+    const findNearest = (croods: Crood[]) => {
+      let nearest: Crood | undefined;
+      let distance = tolerance;
+      croods.forEach((crood) => {
+        const d = Math.hypot(crood.x - point.x, crood.y - point.y);
+        if (d > distance) return;
+        nearest = crood;
+        distance = d;
+      });
+      return nearest;
+    };
+
+    const finders: [EditorSnapType, boolean, () => Crood | undefined][] = [
+      [
+        'node',
+        nodes,
+        () => {
+          const croods: Crood[] = [];
+          vizpath.paths.forEach(({ segment }) => {
+            segment.forEach((item) => {
+              if (!item.node || item === pathNode) return;
+              const crood = this._getCanvasCrood(item);
+              if (crood) croods.push(crood);
+            });
+          });
+          return findNearest(croods);
+        },
+      ],
+      [
+        'midpoint',
+        midpoints,
+        () => {
+          const croods: Crood[] = [];
+          this._getMidpoints().forEach((crood, item) => {
+            if (!excludes.includes(item)) croods.push(crood);
+          });
+          return findNearest(croods);
+        },
+      ],
+      [
+        'angle',
+        angles && angleStep > 0,
+        () => {
+          // 投影到参考点出发的最近角度增量方向上
+          const step = (angleStep * Math.PI) / 180;
+          const croods = anchors.map((anchor) => {
+            const dx = point.x - anchor.x;
+            const dy = point.y - anchor.y;
+            const angle = Math.round(Math.atan2(dy, dx) / step) * step;
+            const distance = dx * Math.cos(angle) + dy * Math.sin(angle);
+            return {
+              x: anchor.x + distance * Math.cos(angle),
+              y: anchor.y + distance * Math.sin(angle),
+            };
+          });
+          return findNearest(croods);
+        },
+      ],
+      [
+        'outline',
+        outlines,
+        () => {
+          const result = vizpath.hitTest(point, { tolerance });
+          if (result && !excludes.includes(result.pathNode)) return result.point;
+
+          // 最近的轮廓随拖拽变化时，只在其他路径上查找
+          const path = pathNode && vizpath.getPath(pathNode.segment);
+          if (!path) return;
+          return vizpath.hitTest(point, {
+            tolerance,
+            paths: vizpath.paths.filter((i) => i !== path),
+          })?.point;
+        },
+      ],
+      [
+        'grid',
+        grid,
+        () => {
+          const { size, offset } = this._getGrid(canvas);
+          if (size <= 0) return;
+
+          const snapValue = (value: number, offset: number) => {
+            const snapped = Math.round((value - offset) / size) * size + offset;
+            return Math.abs(snapped - value) <= tolerance ? snapped : value;
+          };
+          const crood = { x: snapValue(point.x, offset.x), y: snapValue(point.y, offset.y) };
+          if (crood.x === point.x && crood.y === point.y) return;
+          return crood;
+        },
+      ],
+    ];
+
+    for (const [type, enabled, find] of finders) {
+      if (!enabled) continue;
+      const crood = find();
+      if (crood) return { type, position: { left: crood.x, top: crood.y } };
+    }
+  }
+
+  /**
+   * 获取所有路径指令的中点画布绝对位置
+   */
+  private _getMidpoints() {
+    if (this._midpoints) return this._midpoints;
+
+    const vizpath = this.vizpath!;
+    const midpoints = new Map<PathNode, Crood>();
+    vizpath.paths.forEach((path) => {
+      const measure = vizpath.measure(path);
+      path.segment.forEach((item, index) => {
+        const type = item.instruction[0];
+        if (type === InstructionType.START || type === InstructionType.CLOSE) return;
+        const crood = measure.getInstructionPointAt(index, 0.5);
+        if (crood) midpoints.set(item, crood);
+      });
+    });
+
+    this._midpoints = midpoints;
+    return midpoints;
+  }
+
+  /**
+   * 获取画布坐标下的网格尺寸及偏移，与背景模块绘制的网格对齐
+   */
+  private _getGrid(canvas: fabric.Canvas) {
+    const background = this.vizpath?.context.find(EditorBackground);
+    const backgroundGridSize = background?.options.grid ? background.options.gridSize : undefined;
+    const size = this.options.gridSize ?? backgroundGridSize ?? 50;
+
+    if (size !== backgroundGridSize) return { size, offset: { x: 0, y: 0 } };
+
+    const offset = new fabric.Point(
+      -(canvas.getWidth() % size) / 2,
+      -(canvas.getHeight() % size) / 2,
+    );
+
+    // 背景网格不跟随视口变换时固定在屏幕上，需要通过视口逆变换转换到画布坐标
+    if (canvas.backgroundVpt !== false) return { size, offset };
+
+    const invertTransform = fabric.util.invertTransform(
+      canvas.viewportTransform ?? fabric.iMatrix.concat(),
+    );
+    const origin = fabric.util.transformPoint(offset, invertTransform);
+    return {
+      size: size / canvas.getZoom(),
+      offset: { x: origin.x, y: origin.y },
+    };
+  }
+
+  private _handleSnap(event: { position: Position }, object?: fabric.Object) {
+    if (this._suspended || object?.group) return;
+
+    const result = this.snap(event.position, object);
+    if (result) event.position = result.position;
+
+    this.fire('snap', result ?? null);
+  }
+
+  private _handleKey(e: KeyboardEvent) {
+    const { modifierKey } = this.options;
+    this._suspended = !!modifierKey && e[`${modifierKey}Key`];
+  }
+
+  unload() {
+    this._disposers.forEach((dispose) => dispose());
+    this._disposers = [];
+    this._suspended = false;
+    this._dragging = false;
+    this._midpoints = null;
+  }
+
+  load(vizpath: VizPath) {
+    const editor = vizpath.context.find(Editor);
+    if (!editor) {
+      throw new TypeError('Please use editor module before using snap module.');
+    }
+
+    this._disposers.push(
+      editor.on('beforeMove', (event) => this._handleSnap(event, event.object)),
+      editor.on('beforeAdd', (event) => this._handleSnap(event)),
+      // 拖拽引起的变更不影响缓存的中点，其余变更则需要重新计算
+      vizpath.on('change', () => {
+        if (!this._dragging) this._midpoints = null;
+      }),
+    );
+
+    editor.addCanvasEvent('mouse:down', () => {
+      this._dragging = true;
+    });
+    editor.addCanvasEvent('mouse:up', () => {
+      this._dragging = false;
+      this._midpoints = null;
+      this.fire('snap', null);
+    });
+    editor.addGlobalEvent('keydown', this._handleKey.bind(this));
+    editor.addGlobalEvent('keyup', this._handleKey.bind(this));
+    editor.addGlobalEvent('blur', () => {
+      this._suspended = false;
+    });
+  }
+}
+
+export default EditorSnap;
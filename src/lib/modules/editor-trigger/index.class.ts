@@ -0,0 +1,137 @@
+import { fabric } from 'fabric';
+import defaults from 'lodash-es/defaults';
+import EditorModule from '../base.class';
+import Editor, { CLICK_TOLERANCE, Mode } from '../editor/index.class';
+import { objectToPath } from '@utils';
+import type VizPath from '../../vizpath.class';
+
+type EditorTriggerOptions = {
+  /**
+   * 可双击进入编辑的对象类型
+   * @default ['path', 'polygon', 'polyline', 'rect', 'circle', 'ellipse']
+   */
+  types: string[];
+  /**
+   * 退出编辑的按键，设为空字符串则不通过按键退出
+   * @default 'Escape'
+   */
+  exitKey: string;
+  /**
+   * 是否点击画布空白处退出编辑
+   * @default true
+   */
+  exitOnBlankClick: boolean;
+};
+
+const DEFAULT_OPTIONS: EditorTriggerOptions = {
+  types: ['path', 'polygon', 'polyline', 'rect', 'circle', 'ellipse'],
+  exitKey: 'Escape',
+  exitOnBlankClick: true,
+};
+
+/**
+ * 编辑器触发模块，双击挂载画布中的普通对象即可转换为路径并进入编辑，点击空白处或按下Esc键退出并写回
+ *
+ * @note 仅支持非隔离模式的编辑器，退出编辑时等同于调用 VizPathCreator.commit
+ *
+ * @example
+ *
+ * vizpath
+ * .use(new Editor(fabricCanvas))
+ * .use(new EditorTrigger({ types: ['path', 'rect'] }))
+ */
+class EditorTrigger extends EditorModule {
+  static ID = 'editor-trigger';
+
+  options: EditorTriggerOptions;
+
+  /** 鼠标按下时的位置，按下在空白处时才记录 */
+  private _blankPointer: Crood | null = null;
+
+  constructor(options: Partial<EditorTriggerOptions> = {}) {
+    super();
+
+    this.options = defaults(options, DEFAULT_OPTIONS);
+  }
+
+  /**
+   * 判断对象是否属于编辑器（路径节点、变换点或正在编辑的路径）
+   */
+  private _isEditorObject(object: fabric.Object) {
+    const editor = this.vizpath?.context.find(Editor);
+    if (!editor) return false;
+    return !!object[Editor.symbol] || editor.paths.some((i) => i.pathObject === object);
+  }
+
+  private async _handleDoubleClick(e: fabric.IEvent<MouseEvent>) {
+    const vizpath = this.vizpath;
+    const target = e.target;
+    if (!vizpath || !target || target.group) return;
+    if (!this.options.types.includes(target.type!)) return;
+    if (this._isEditorObject(target)) return;
+
+    // 配置的类型可能无法转换为路径，此时忽略本次双击
+    if (target.type !== 'path' && !objectToPath(target)) return;
+
+    target.canvas?.discardActiveObject();
+
+    await vizpath.context.enterEditing(target);
+  }
+
+  private _handleMouseDown(e: fabric.IEvent<MouseEvent>) {
+    this._blankPointer = e.target ? null : e.pointer ?? null;
+  }
+
+  private _handleMouseUp(e: fabric.IEvent<MouseEvent>) {
+    const pointer = this._blankPointer;
+    this._blankPointer = null;
+
+    const vizpath = this.vizpath;
+    const editor = vizpath?.context.find(Editor);
+    if (!vizpath || !editor || !pointer || !e.pointer) return;
+    if (!this.options.exitOnBlankClick || !vizpath.context.isEditing) return;
+
+    // 添加模式下点击空白处用于添加节点
+    if (editor.get('mode') === Mode.ADD) return;
+
+    // 框选等拖拽操作不退出编辑
+    if (Math.hypot(e.pointer.x - pointer.x, e.pointer.y - pointer.y) > CLICK_TOLERANCE) return;
+
+    vizpath.context.commit();
+  }
+
+  private _handleKeyDown(e: KeyboardEvent) {
+    const vizpath = this.vizpath;
+    if (!vizpath || !this.options.exitKey || e.key !== this.options.exitKey) return;
+    if (!vizpath.context.isEditing) return;
+
+    // 输入框内的按键不作处理
+    const target = e.target as HTMLElement | null;
+    if (target && (['INPUT', 'TEXTAREA'].includes(target.tagName) || target.isContentEditable)) {
+      return;
+    }
+
+    vizpath.context.commit();
+  }
+
+  unload() {
+    this._blankPointer = null;
+  }
+
+  load(vizpath: VizPath) {
+    const editor = vizpath.context.find(Editor);
+    if (!editor) {
+      throw new TypeError('Please use editor module before using trigger module.');
+    }
+    if (editor.isolation) {
+      throw new TypeError('Trigger module is only available for editor without isolation.');
+    }
+
+    editor.addCanvasEvent('mouse:dblclick', this._handleDoubleClick.bind(this));
+    editor.addCanvasEvent('mouse:down', this._handleMouseDown.bind(this));
+    editor.addCanvasEvent('mouse:up', this._handleMouseUp.bind(this));
+    editor.addGlobalEvent('keydown', this._handleKeyDown.bind(this));
+  }
+}
+
+export default EditorTrigger;
@@ -0,0 +1,483 @@
+import { fabric } from 'fabric';
+import defaults from 'lodash-es/defaults';
+import EditorModule from '../base.class';
+import Editor, { EditorSymbolType } from '../editor/index.class';
+import EditorBezier from '../editor-bezier/index.class';
+import type VizPath from '../../vizpath.class';
+
+type EditorViewportOptions = {
+  /**
+   * 最小缩放比例
+   * @default 0.05
+   */
+  minZoom: number;
+  /**
+   * 最大缩放比例
+   * @default 50
+   */
+  maxZoom: number;
+  /**
+   * 是否启用滚轮及触控板双指缩放
+   * @default true
+   */
+  wheelZoom: boolean;
+  /**
+   * 是否启用按住空格拖拽平移
+   * @default true
+   */
+  spacePan: boolean;
+  /**
+   * 是否启用鼠标中键拖拽平移
+   * @default true
+   */
+  middleButtonPan: boolean;
+  /**
+   * 适应画布及适应选中节点时保留的边距，以屏幕像素为单位
+   * @default 40
+   */
+  padding: number;
+  /**
+   * 节点、曲线变换点、连线及拆分点是否保持固定的屏幕尺寸，不随画布缩放变化
+   * @default true
+   */
+  constantHandles: boolean;
+};
+
+const DEFAULT_OPTIONS: EditorViewportOptions = {
+  minZoom: 0.05,
+  maxZoom: 50,
+  wheelZoom: true,
+  spacePan: true,
+  middleButtonPan: true,
+  padding: 40,
+  constantHandles: true,
+};
+
+/**
+ * 编辑器视图模块，支持以光标为中心的缩放、平移、适应画布及适应选中节点
+ *
+ * @note
+ *
+ * ① 触控板双指缩放在浏览器中以按住 ctrl 的滚轮事件触发
+ *
+ * ② 使用隔离画布时，视图变换会同步到挂载画布上
+ *
+ * @example
+ *
+ * vizpath
+ * .use(new Editor(fabricCanvas))
+ * .use(new EditorViewport({ maxZoom: 10 }))
+ *
+ * vizpath.find(EditorViewport)?.zoomToFit();
+ */
+class EditorViewport extends EditorModule<{
+  viewport: (viewportTransform: number[]) => void;
+}> {
+  static ID = 'editor-viewport';
+
+  options: EditorViewportOptions;
+
+  /** 是否按住了空格 */
+  private _spacePressed = false;
+
+  /** 平移时上一次的鼠标位置，不在平移时为null */
+  private _panningPoint: Crood | null = null;
+
+  /** 按住空格前画布的光标及选择配置 */
+  private _canvasSettings: Pick<
+    fabric.Canvas,
+    'defaultCursor' | 'hoverCursor' | 'selection'
+  > | null = null;
+
+  /** 连线对象的原始描边配置 */
+  private _lineStyles = new WeakMap<
+    fabric.Object,
+    Pick<fabric.Object, 'strokeWidth' | 'strokeDashArray'>
+  >();
+
+  /** 操作对象尺寸当前对应的缩放比例 */
+  private _handleZoom = 1;
+
+  /** 取消DOM事件监听 */
+  private _disposers: (() => void)[] = [];
+
+  constructor(options: Partial<EditorViewportOptions> = {}) {
+    super();
+
+    this.options = defaults(options, DEFAULT_OPTIONS);
+  }
+
+  /**
+   * 获取当前缩放比例
+   */
+  getZoom() {
+    return this.vizpath?.context.find(Editor)?.canvas?.getZoom() ?? 1;
+  }
+
+  /**
+   * 设置视图变换，使用隔离画布时同步到挂载画布
+   */
+  setViewportTransform(viewportTransform: number[]) {
+    const editor = this.vizpath?.context.find(Editor);
+    const canvas = editor?.canvas;
+    if (!editor || !canvas) return;
+
+    const matrix = [...viewportTransform];
+
+    // 先更新操作对象尺寸，设置视图变换时会统一更新对象坐标
+    this._updateHandles(matrix[0]);
+
+    canvas.setViewportTransform(matrix);
+    if (editor.isolation && editor.mountCanvas && editor.mountCanvas !== canvas) {
+      editor.mountCanvas.setViewportTransform([...matrix]);
+    }
+
+    this.fire('viewport', matrix);
+  }
+
+  /**
+   * 以画布元素上的某点为中心缩放
+   *
+   * @param zoom 缩放比例
+   * @param point 画布元素上的位置，不传则以画布中心缩放
+   */
+  zoomTo(zoom: number, point?: Crood) {
+    const canvas = this.vizpath?.context.find(Editor)?.canvas;
+    if (!canvas) return;
+
+    const { minZoom, maxZoom } = this.options;
+    const newZoom = Math.min(Math.max(zoom, minZoom), maxZoom);
+    const center = point ?? { x: canvas.getWidth() / 2, y: canvas.getHeight() / 2 };
+
+    // 保持中心点对应的画布坐标不变
+    const vpt = canvas.viewportTransform ?? [1, 0, 0, 1, 0, 0];
+    const ratio = newZoom / canvas.getZoom();
+    this.setViewportTransform([
+      newZoom,
+      0,
+      0,
+      newZoom,
+      center.x - (center.x - vpt[4]) * ratio,
+      center.y - (center.y - vpt[5]) * ratio,
+    ]);
+  }
+
+  /**
+   * 在当前缩放比例基础上按倍数缩放
+   */
+  zoomBy(factor: number, point?: Crood) {
+    this.zoomTo(this.getZoom() * factor, point);
+  }
+
+  /**
+   * 按屏幕像素平移
+   */
+  panBy(dx: number, dy: number) {
+    const canvas = this.vizpath?.context.find(Editor)?.canvas;
+    if (!canvas) return;
+
+    const vpt = [...(canvas.viewportTransform ?? [1, 0, 0, 1, 0, 0])];
+    vpt[4] += dx;
+    vpt[5] += dy;
+    this.setViewportTransform(vpt);
+  }
+
+  /**
+   * 将画布区域缩放平移至居中显示
+   *
+   * @param bounds 画布绝对坐标下的区域
+   * @param keepZoom 是否保持当前缩放比例
+   */
+  private _zoomToBounds(
+    bounds: { left: number; top: number; width: number; height: number },
+    keepZoom = false,
+  ) {
+    const canvas = this.vizpath?.context.find(Editor)?.canvas;
+    if (!canvas) return;
+
+    const { minZoom, maxZoom, padding } = this.options;
+    const width = canvas.getWidth();
+    const height = canvas.getHeight();
+
+    let zoom = canvas.getZoom();
+    if (!keepZoom) {
+      const zooms: number[] = [];
+      if (bounds.width > 0) zooms.push(Math.max(width - padding * 2, 1) / bounds.width);
+      if (bounds.height > 0) zooms.push(Math.max(height - padding * 2, 1) / bounds.height);
+      if (zooms.length) zoom = Math.min(Math.max(Math.min(...zooms), minZoom), maxZoom);
+    }
+
+    const center = {
+      x: bounds.left + bounds.width / 2,
+      y: bounds.top + bounds.height / 2,
+    };
+    this.setViewportTransform([
+      zoom,
+      0,
+      0,
+      zoom,
+      width / 2 - center.x * zoom,
+      height / 2 - center.y * zoom,
+    ]);
+  }
+
+  /**
+   * 缩放平移至完整显示所有路径
+   */
+  zoomToFit() {
+    const vizpath = this.vizpath;
+    if (!vizpath) return;
+
+    const rects = [...new Set(vizpath.paths.map((i) => i.pathObject))].map((pathObject) =>
+      pathObject.getBoundingRect(true, true),
+    );
+    if (!rects.length) return;
+
+    const left = Math.min(...rects.map((i) => i.left));
+    const top = Math.min(...rects.map((i) => i.top));
+    const right = Math.max(...rects.map((i) => i.left + i.width));
+    const bottom = Math.max(...rects.map((i) => i.top + i.height));
+
+    this._zoomToBounds({ left, top, width: right - left, height: bottom - top });
+  }
+
+  /**
+   * 缩放平移至完整显示选中的节点，只选中单个节点时仅平移居中，没有选中节点时适应所有路径
+   */
+  zoomToSelection() {
+    const editor = this.vizpath?.context.find(Editor);
+    if (!editor) return;
+
+    const croods = editor.activeNodes
+      .map((object) => {
+        const node = editor.objectNodeMap.get(object)?.node;
+        if (!node) return;
+        const { left, top } = editor.calcAbsolutePosition(
+          node,
+          editor.nodePathMap.get(node)!.pathObject,
+        );
+        return { x: left, y: top };
+      })
+      .filter(Boolean) as Crood[];
+
+    if (!croods.length) {
+      this.zoomToFit();
+      return;
+    }
+
+    const left = Math.min(...croods.map((i) => i.x));
+    const top = Math.min(...croods.map((i) => i.y));
+    const right = Math.max(...croods.map((i) => i.x));
+    const bottom = Math.max(...croods.map((i) => i.y));
+
+    this._zoomToBounds(
+      { left, top, width: right - left, height: bottom - top },
+      croods.length === 1,
+    );
+  }
+
+  /**
+   * 重置视图变换
+   */
+  reset() {
+    this.setViewportTransform([1, 0, 0, 1, 0, 0]);
+  }
+
+  /**
+   * 更新单个操作对象的尺寸，使其在当前缩放比例下保持固定的屏幕尺寸
+   */
+  private _updateHandle(object: fabric.Object, zoom: number) {
+    const editor = this.vizpath?.context.find(Editor);
+    const bezier = this.vizpath?.context.find(EditorBezier);
+    const scale = this.options.constantHandles ? 1 / zoom : 1;
+
+    switch (object[Editor.symbol]) {
+      case EditorSymbolType.NODE:
+      case EditorSymbolType.CURVE_DOT:
+      case EditorSymbolType.ARC_DOT: {
+        // 节点在活跃组内时需要抵消组本身的缩放
+        const group =
+          object.group && editor?.activeNodes.includes(object) ? object.group : undefined;
+        object.set({
+          scaleX: scale / (group?.scaleX ?? 1),
+          scaleY: scale / (group?.scaleY ?? 1),
+        });
+        break;
+      }
+      case EditorSymbolType.LINE: {
+        if (!this._lineStyles.has(object)) {
+          this._lineStyles.set(object, {
+            strokeWidth: object.strokeWidth,
+            strokeDashArray: object.strokeDashArray,
+          });
+        }
+        const { strokeWidth = 1, strokeDashArray } = this._lineStyles.get(object)!;
+        object.set({
+          strokeWidth: strokeWidth * scale,
+          strokeDashArray: strokeDashArray?.map((i) => i * scale),
+        });
+        break;
+      }
+      default:
+        if (bezier?.splitDot !== object) return;
+        object.set({ scaleX: scale, scaleY: scale });
+        break;
+    }
+
+    object.setCoords();
+  }
+
+  /**
+   * 更新画布上所有操作对象的尺寸
+   */
+  private _updateHandles(zoom: number) {
+    const canvas = this.vizpath?.context.find(Editor)?.canvas;
+    if (!canvas) return;
+
+    this._handleZoom = zoom;
+    canvas.getObjects().forEach((object) => this._updateHandle(object, zoom));
+  }
+
+  private _handleWheel(event: fabric.IEvent<WheelEvent>) {
+    const canvas = this.vizpath?.context.find(Editor)?.canvas;
+    if (!canvas || !this.options.wheelZoom) return;
+
+    const e = event.e;
+    e.preventDefault();
+    e.stopPropagation();
+
+    // 双指缩放的滚动增量较小，需要更大的缩放幅度
+    const factor = (e.ctrlKey ? 0.99 : 0.999) ** e.deltaY;
+    this.zoomBy(factor, canvas.getPointer(e, true));
+  }
+
+  private _handleKey(e: KeyboardEvent) {
+    const canvas = this.vizpath?.context.find(Editor)?.canvas;
+    if (!canvas || !this.options.spacePan) return;
+    if (e.code !== 'Space') return;
+
+    // 输入框内的空格不作处理
+    const target = e.target as HTMLElement | null;
+    if (target && (['INPUT', 'TEXTAREA'].includes(target.tagName) || target.isContentEditable)) {
+      return;
+    }
+
+    e.preventDefault();
+
+    const pressed = e.type === 'keydown';
+    if (pressed === this._spacePressed) return;
+    this._spacePressed = pressed;
+
+    if (pressed) {
+      this._canvasSettings = {
+        defaultCursor: canvas.defaultCursor,
+        hoverCursor: canvas.hoverCursor,
+        selection: canvas.selection,
+      };
+      canvas.selection = false;
+      canvas.defaultCursor = 'grab';
+      canvas.hoverCursor = 'grab';
+      canvas.setCursor('grab');
+    } else {
+      this._restoreCanvasSettings();
+    }
+  }
+
+  private _restoreCanvasSettings() {
+    const canvas = this.vizpath?.context.find(Editor)?.canvas;
+    if (!canvas || !this._canvasSettings) return;
+
+    Object.assign(canvas, this._canvasSettings);
+    canvas.setCursor(this._canvasSettings.defaultCursor ?? 'default');
+    this._canvasSettings = null;
+  }
+
+  private _handlePanStart(e: MouseEvent) {
+    const isMiddleButton = this.options.middleButtonPan && e.button === 1;
+    const isSpacePan = this.options.spacePan && this._spacePressed && e.button === 0;
+    if (!isMiddleButton && !isSpacePan) return;
+
+    // 阻止画布接收到按下事件，避免同时触发节点拖拽、框选或添加节点
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (e.type !== 'mousedown') return;
+
+    this._panningPoint = { x: e.clientX, y: e.clientY };
+    this.vizpath?.context.find(Editor)?.canvas?.setCursor('grabbing');
+  }
+
+  private _handlePanMove(e: MouseEvent) {
+    if (!this._panningPoint) return;
+
+    const dx = e.clientX - this._panningPoint.x;
+    const dy = e.clientY - this._panningPoint.y;
+    this._panningPoint = { x: e.clientX, y: e.clientY };
+
+    this.panBy(dx, dy);
+  }
+
+  private _handlePanEnd() {
+    if (!this._panningPoint) return;
+
+    this._panningPoint = null;
+    this.vizpath?.context.find(Editor)?.canvas?.setCursor(this._spacePressed ? 'grab' : 'default');
+  }
+
+  unload() {
+    this._disposers.forEach((dispose) => dispose());
+    this._disposers = [];
+
+    this._restoreCanvasSettings();
+    this._spacePressed = false;
+    this._panningPoint = null;
+
+    // 恢复操作对象的原始尺寸
+    const canvas = this.vizpath?.context.find(Editor)?.canvas;
+    canvas?.getObjects().forEach((object) => this._updateHandle(object, 1));
+    this._lineStyles = new WeakMap();
+    this._handleZoom = 1;
+  }
+
+  load(vizpath: VizPath) {
+    const editor = vizpath.context.find(Editor);
+    if (!editor) {
+      throw new TypeError('Please use editor module before using viewport module.');
+    }
+
+    const canvas = editor.canvas!;
+
+    // 使用捕获阶段监听，在fabric处理按下事件前拦截平移操作
+    const container = canvas.getSelectionElement().parentNode as HTMLElement;
+    const handlePanStart = this._handlePanStart.bind(this);
+    ['pointerdown', 'mousedown'].forEach((eventName) => {
+      container.addEventListener(eventName, handlePanStart as EventListener, true);
+      this._disposers.push(() =>
+        container.removeEventListener(eventName, handlePanStart as EventListener, true),
+      );
+    });
+
+    editor.addCanvasEvent('mouse:wheel', this._handleWheel.bind(this));
+    editor.addCanvasEvent('object:added', (event: fabric.IEvent) => {
+      if (event.target) this._updateHandle(event.target, canvas.getZoom());
+    });
+    // 视图变换也可能由外部直接设置，例如隔离画布跟随挂载画布缩放
+    editor.addCanvasEvent('before:render', () => {
+      if (canvas.getZoom() !== this._handleZoom) this._updateHandles(canvas.getZoom());
+    });
+    editor.addGlobalEvent('mousemove', this._handlePanMove.bind(this));
+    editor.addGlobalEvent('mouseup', this._handlePanEnd.bind(this));
+    editor.addGlobalEvent('keydown', this._handleKey.bind(this));
+    editor.addGlobalEvent('keyup', this._handleKey.bind(this));
+    editor.addGlobalEvent('blur', () => {
+      this._spacePressed = false;
+      this._handlePanEnd();
+      this._restoreCanvasSettings();
+    });
+
+    // 同步已有的视图变换
+    this.setViewportTransform(canvas.viewportTransform ?? [1, 0, 0, 1, 0, 0]);
+  }
+}
+
+export default EditorViewport;
@@ -1,6 +1,7 @@
 import { fabric } from 'fabric';
 import { v4 as uuid } from 'uuid';
 import defaults from 'lodash-es/defaults';
+import isEqual from 'lodash-es/isEqual';
 import EditorModule from '../base.class';
 import type { ResponsiveCrood, ResponsivePath } from '../../vizpath.class';
 import {
@@ -8,20 +9,34 @@ import {
   calcCroodsAngle,
   calcCroodsDistance,
   deepIterateGroup,
+  fireFabricMouseDown,
+  fireFabricMouseUp,
   fireMouseUpAndSelect,
+  getArcCenter,
+  inferNodeType,
+  linkSegments,
   observe,
   repairPath,
-  reversePath,
   transform,
+  transformArc,
 } from '@utils';
 import EditorUI, { DEFAULT_THEME, type ThemeDecorator } from '../editor-ui/index.class';
 import VizPath from '../../vizpath.class';
-import VizPathCreator, { InstructionType, type Instruction, type PathNode } from 'src/lib';
+import VizPathCreator, {
+  InstructionType,
+  PathNodeType,
+  type Instruction,
+  type PathNode,
+} from 'src/lib';
+
+/** 判定为点击而非拖拽的最大移动距离 */
+export const CLICK_TOLERANCE = 3;
 
 export enum EditorSymbolType {
   PATH = 'path',
   NODE = 'node',
   CURVE_DOT = 'curve-dot',
+  ARC_DOT = 'arc-dot',
   LINE = 'line',
   OTHER = 'other',
 }
@@ -53,7 +68,7 @@ type EditorSetting = {
    *
    * none - 单杆变换，不对称变换
    *
-   * auto - 自动变换，操作前若角度恰好对称则保持角度对称状态，如完全对称则完全对称，反之则不对称变换
+   * auto - 根据节点类型变换，尖角节点不对称变换，平滑节点角度对称变换，对称节点完全对称变换
    *
    * angle - 角度对称变换
    *
@@ -64,6 +79,14 @@ type EditorSetting = {
   dotSymmetricMode: 'none' | 'auto' | 'angle' | 'entire';
 };
 
+export type EditorIsolationOptions = {
+  /**
+   * 点击未命中编辑器对象时，是否将点击转发到挂载画布上
+   * @default false
+   */
+  forwardClicks: boolean;
+};
+
 type EditorCurveDot = {
   type: 'pre' | 'next';
   pathNode: PathNode<ResponsiveCrood>;
@@ -73,14 +96,90 @@ type EditorCurveDot = {
   line: fabric.Line;
 };
 
-class Editor extends EditorModule<{
+type EditorArcDot = {
+  /** rx 控制椭圆x半轴的半径及旋转角度，ry 控制椭圆y半轴的半径及旋转角度 */
+  type: 'rx' | 'ry';
+  /** 椭圆弧指令所在的路径节点 */
+  pathNode: PathNode<ResponsiveCrood>;
+  /** 所属的活跃节点 */
+  node: fabric.Object;
+  /** 椭圆圆心，拖拽过程中保持不变 */
+  center: Crood;
+  point: fabric.Object;
+  line: fabric.Line;
+};
+
+/**
+ * 可取消的前置事件参数，处理函数可直接修改参数内容以改变操作，或调用 preventDefault 取消本次操作
+ *
+ * @example
+ *
+ * // 模板的锚点不允许删除
+ * editor.on('beforeRemove', (event) => {
+ *   event.objects = event.objects.filter((object) => !isAnchor(object));
+ * });
+ *
+ * // 节点移动时吸附到10px网格
+ * editor.on('beforeMove', (event) => {
+ *   event.position.left = Math.round(event.position.left / 10) * 10;
+ *   event.position.top = Math.round(event.position.top / 10) * 10;
+ * });
+ */
+export type EditorBeforeEvent<T extends object> = T & {
+  /** 取消本次操作 */
+  preventDefault: () => void;
+  /** 本次操作是否已被取消 */
+  readonly defaultPrevented: boolean;
+};
+
+/**
+ * 各前置事件的参数
+ */
+export type EditorBeforeEventParams = {
+  /** 添加节点，position 为新节点的画布绝对位置 */
+  beforeAdd: { position: Position };
+  /** 删除节点或变换点，可从 objects 中剔除不允许删除的对象 */
+  beforeRemove: { objects: fabric.Object[] };
+  /** 路径升级 */
+  beforeUpgrade: { object: fabric.Object; direction: 'pre' | 'next' | 'both' };
+  /** 路径降级 */
+  beforeDegrade: { object: fabric.Object; direction: 'pre' | 'next' | 'both'; lowest: boolean };
+  /** 连接两个节点 */
+  beforeLink: { source: fabric.Object; target: fabric.Object };
+  /** 移动节点或曲线变换点，position 为移动后的画布绝对位置 */
+  beforeMove: { object: fabric.Object; position: Position };
+  /** 从节点拖出曲线变换点 */
+  beforeConvert: { object: fabric.Object };
+};
+
+/**
+ * 锁定项
+ *
+ * move 禁止移动，remove 禁止删除，convert 禁止转换（升级、降级及拖出曲线变换点）
+ */
+export type EditorLockType = 'move' | 'remove' | 'convert';
+
+/**
+ * 节点移动约束，x 仅水平移动，y 仅垂直移动，传入向量（画布坐标系）则只能沿该方向移动
+ */
+export type EditorAxisConstraint = 'x' | 'y' | Crood;
+
+type EditorEvents = {
   set: (setting: Partial<EditorSetting>) => void;
   added: (node: fabric.Object) => void;
   closed: (node: fabric.Object) => void;
   removed: (nodes: fabric.Object[]) => void;
   selected: (activeNodes: fabric.Object[], activePoint: fabric.Object | null) => void;
   deselected: (activeNodes: fabric.Object[], activePoint: fabric.Object | null) => void;
-}> {
+  lock: (lockedObjects: fabric.Object[]) => void;
+  nodeType: (nodeTypes: Map<fabric.Object, `${PathNodeType}`>) => void;
+} & {
+  [Name in keyof EditorBeforeEventParams]: (
+    event: EditorBeforeEvent<EditorBeforeEventParams[Name]>,
+  ) => void;
+};
+
+class Editor extends EditorModule<EditorEvents> {
   static ID = 'editor';
 
   static symbol = Symbol('editor');
@@ -106,9 +205,12 @@ class Editor extends EditorModule<{
   /** 当前编辑器是否使用隔离画布（模拟克隆的新画布对象） */
   isolation = false;
 
+  /** 隔离画布配置 */
+  isolationOptions: EditorIsolationOptions = { forwardClicks: false };
+
   /** 监听事件 */
   listeners: {
-    type: 'global' | 'canvas';
+    type: 'global' | 'canvas' | 'mount';
     eventName: string;
     handler: (e: any) => void;
   }[] = [];
@@ -134,6 +236,9 @@ class Editor extends EditorModule<{
   /** 路径曲线变换点列表 */
   curveDots: EditorCurveDot[] = [];
 
+  /** 椭圆弧变换点列表 */
+  arcDots: EditorArcDot[] = [];
+
   /** 元素画布对象 与 路径节点对象 映射 */
   objectNodeMap: Map<fabric.Object, PathNode<ResponsiveCrood>> = new Map([]);
 
@@ -152,9 +257,24 @@ class Editor extends EditorModule<{
   /** 当前转换的路径节点 */
   currentConvertNodeObject: fabric.Object | null = null;
 
+  /** 锁定配置，以路径节点标识为键，变换点则以 `节点标识:变换点类型` 为键，节点重绘后依然有效 */
+  locks = new Map<string, EditorLockType[]>([]);
+
+  /** 节点移动约束，以路径节点标识为键 */
+  constraints = new Map<string, EditorAxisConstraint>([]);
+
   /**  临时停用选择监听处理 */
   private _deactivateSelectListeners = false;
 
+  /** 是否正在修正被取消或修改移动的节点及变换点对象位置（此时不再触发移动前置事件） */
+  private _correctingMove = false;
+
+  /** 是否正在跟随编辑目标的变换刷新对象位置（此时对象位置变化不再同步到指令） */
+  private _followingTarget = false;
+
+  /** 隔离画布下挂载画布中正在编辑的目标对象，及上一次同步时的变换矩阵 */
+  private _isolationTarget: { object: fabric.Object; matrix: number[] } | null = null;
+
   /** 废弃的画布对象池，可用于复用减少创建消耗 */
   private _abandonedPool: {
     nodes: fabric.Object[];
@@ -168,16 +288,22 @@ class Editor extends EditorModule<{
 
   /**
    * 构造函数
-   * @param options 更多配置
+   * @param mountCanvas 挂载画布
+   * @param initialSetting 初始配置
+   * @param isolation 是否使用隔离画布，传入配置对象时同样使用隔离画布
    */
   constructor(
     mountCanvas: fabric.Canvas,
     initialSetting: Partial<EditorSetting> = {},
-    isolation = false,
+    isolation: boolean | Partial<EditorIsolationOptions> = false,
   ) {
     super();
     this.mountCanvas = mountCanvas;
-    this.isolation = isolation;
+    this.isolation = !!isolation;
+    this.isolationOptions = defaults(
+      typeof isolation === 'object' ? { ...isolation } : {},
+      this.isolationOptions,
+    );
 
     this._settings.push(
       defaults(initialSetting, {
@@ -340,6 +466,112 @@ class Editor extends EditorModule<{
     return canvas;
   }
 
+  /**
+   * 同步挂载画布的尺寸、高清屏缩放、视图变换及编辑目标的变换到隔离画布
+   */
+  private _syncIsolationCanvas() {
+    const canvas = this.canvas;
+    const mountCanvas = this.mountCanvas;
+    if (!canvas || !mountCanvas || canvas === mountCanvas) return;
+
+    // 画布尺寸及高清屏缩放
+    const width = mountCanvas.getWidth();
+    const height = mountCanvas.getHeight();
+    if (
+      canvas.enableRetinaScaling !== mountCanvas.enableRetinaScaling ||
+      canvas.getWidth() !== width ||
+      canvas.getHeight() !== height
+    ) {
+      canvas.enableRetinaScaling = mountCanvas.enableRetinaScaling;
+      canvas.setDimensions({ width, height });
+    }
+
+    // 画布元素的样式尺寸可能与画布尺寸不一致
+    const { width: cssWidth, height: cssHeight } = mountCanvas.getElement().style;
+    const { width: editorCssWidth, height: editorCssHeight } = canvas.getElement().style;
+    if (cssWidth !== editorCssWidth || cssHeight !== editorCssHeight) {
+      canvas.setDimensions({ width: cssWidth, height: cssHeight }, { cssOnly: true });
+    }
+
+    // 视图变换
+    const viewportTransform = mountCanvas.viewportTransform ?? [1, 0, 0, 1, 0, 0];
+    if (!isEqual(viewportTransform, canvas.viewportTransform)) {
+      canvas.setViewportTransform([...viewportTransform]);
+    }
+
+    this._followIsolationTarget();
+  }
+
+  /**
+   * 编辑目标在挂载画布中被变换时，路径对象跟随进行同样的变换
+   */
+  private _followIsolationTarget() {
+    const target = this._isolationTarget;
+    if (!target) return;
+
+    const matrix = target.object.calcTransformMatrix();
+    if (isEqual(matrix, target.matrix)) return;
+
+    const diffMatrix = fabric.util.multiplyTransformMatrices(
+      matrix,
+      fabric.util.invertTransform(target.matrix),
+    );
+    target.matrix = matrix;
+
+    new Set(this.paths.map((i) => i.pathObject)).forEach((pathObject) => {
+      const { translateX, translateY, ...options } = fabric.util.qrDecompose(
+        fabric.util.multiplyTransformMatrices(diffMatrix, pathObject.calcTransformMatrix()),
+      );
+      pathObject.set({ ...options, flipX: false, flipY: false });
+      pathObject.setPositionByOrigin(new fabric.Point(translateX, translateY), 'center', 'center');
+      pathObject.setCoords();
+    });
+
+    this._refreshObjectPositions();
+  }
+
+  /**
+   * 路径对象本身变换后，刷新节点、曲线变换点及连线对象的位置
+   */
+  private _refreshObjectPositions() {
+    this._followingTarget = true;
+
+    const groups = new Set<fabric.Group>();
+    this.nodes.forEach((object) => {
+      const node = this.objectNodeMap.get(object)?.node;
+      if (!node) return;
+
+      const position = this.calcAbsolutePosition(node, this.nodePathMap.get(node)!.pathObject);
+      if (object.group) {
+        const relativePosition = this.calcRelativeCrood(position, object.group);
+        object.set({ left: relativePosition.x, top: relativePosition.y }).setCoords();
+        groups.add(object.group);
+      } else {
+        object.set(position).setCoords();
+      }
+    });
+    groups.forEach((group) => group.addWithUpdate());
+
+    this.curveDots.forEach(({ pathNode, curveDot, point, line }) => {
+      const pathObject = this.nodePathMap.get(pathNode.node!)!.pathObject;
+      const nodePosition = this.calcAbsolutePosition(pathNode.node!, pathObject);
+      const dotPosition = this.calcAbsolutePosition(curveDot, pathObject);
+      point.set(dotPosition).setCoords();
+      line.set({
+        x1: nodePosition.left,
+        y1: nodePosition.top,
+        x2: dotPosition.left,
+        y2: dotPosition.top,
+      });
+    });
+
+    this._refreshArcDots();
+
+    this._followingTarget = false;
+
+    this.canvas?.requestRenderAll();
+  }
+
   /**
    * 添加元素事件监听
    */
@@ -458,6 +690,16 @@ class Editor extends EditorModule<{
     vizpath.on('draw', handler);
   }
 
+  /**
+   * 初始化路径更新监听
+   */
+  private _initUpdatePathListener(vizpath: VizPath) {
+    // 路径更新后椭圆弧的圆心可能发生变化，需同步变换点位置
+    vizpath.on('update', () => {
+      this._refreshArcDots();
+    });
+  }
+
   /**
    * 初始化路径清除监听
    */
@@ -665,6 +907,10 @@ class Editor extends EditorModule<{
 
       // 保留原聚焦状态
       if (storeActiveObjects.length) this.focus(...storeActiveObjects);
+
+      // 节点对象可能被重建或复用，需要同步锁定状态及节点类型
+      this._fireLock();
+      this._fireNodeType();
     };
 
     vizpath.on('draw', updateNodes);
@@ -898,6 +1144,7 @@ class Editor extends EditorModule<{
       canvas.renderOnAddRemove = true;
       canvas.requestRenderAll();
       this.curveDots = [];
+      this._updateArcDots();
       return;
     }
 
@@ -1006,7 +1253,27 @@ class Editor extends EditorModule<{
             });
 
             // 响应式更改指令信息
-            if (point.canvas?.getActiveObject() === point) {
+            if (point.canvas?.getActiveObject() === point && !this._followingTarget) {
+              if (!this._correctingMove) {
+                const event = this.isLocked(point, 'move')
+                  ? undefined
+                  : this._fireBeforeEvent('beforeMove', {
+                      object: point,
+                      position: { left: left!, top: top! },
+                    });
+                const position =
+                  event?.position ??
+                  this.calcAbsolutePosition(curveDot, this.nodePathMap.get(node)!.pathObject);
+
+                // 锁定或移动被取消时还原到指令所在位置，被修改时修正到最终的位置
+                if (position.left !== left || position.top !== top) {
+                  this._correctingMove = true;
+                  point.set(position).setCoords();
+                  this._correctingMove = false;
+                  return;
+                }
+              }
+
               const crood = this.calcRelativeCrood(
                 {
                   left: left!,
@@ -1021,7 +1288,7 @@ class Editor extends EditorModule<{
                   : this.get('dotSymmetricMode');
               if (symmetricMode !== 'none') {
                 const symmetricCurveDot = this.getRelativeCurveDot(point);
-                if (symmetricCurveDot) {
+                if (symmetricCurveDot && !this.isLocked(symmetricCurveDot.point, 'move')) {
                   const { curveDot: _curveDot } = symmetricCurveDot;
                   // 旧镜像曲线变换点到路径节点的距离
                   const d = calcCroodsDistance(_curveDot, node);
@@ -1154,6 +1421,222 @@ class Editor extends EditorModule<{
     this.curveDots = curveDots;
     canvas.renderOnAddRemove = true;
     canvas.requestRenderAll();
+
+    this._updateArcDots();
+  }
+
+  /**
+   * 计算椭圆弧变换点的位置信息
+   */
+  private _calcArcDotCroods(arcDot: Pick<EditorArcDot, 'type' | 'pathNode'>) {
+    const { instruction, segment } = arcDot.pathNode;
+    const preInstruction = segment[segment.indexOf(arcDot.pathNode) - 1].instruction;
+
+    const { center, rx, ry, rotation } = getArcCenter(
+      {
+        x: preInstruction[preInstruction.length - 2] as number,
+        y: preInstruction[preInstruction.length - 1] as number,
+      },
+      instruction,
+    );
+
+    const radius = arcDot.type === 'rx' ? rx : ry;
+    const radian = ((rotation + (arcDot.type === 'rx' ? 0 : 90)) * Math.PI) / 180;
+
+    return {
+      center,
+      dot: {
+        x: center.x + radius * Math.cos(radian),
+        y: center.y + radius * Math.sin(radian),
+      },
+    };
+  }
+
+  /**
+   * 刷新椭圆弧变换点及连线的位置
+   */
+  private _refreshArcDots() {
+    this.arcDots.forEach((arcDot) => {
+      const { point, line, pathNode } = arcDot;
+
+      const pathObject = this.vizpath?.getPath(pathNode.segment)?.pathObject;
+      if (!pathObject) return;
+
+      // 拖拽中的变换点由鼠标控制，圆心也需保持不变
+      if (point.canvas?.getActiveObject() !== point || this._followingTarget) {
+        const { center, dot } = this._calcArcDotCroods(arcDot);
+        arcDot.center = center;
+        point.set(this.calcAbsolutePosition(dot, pathObject)).setCoords();
+      }
+
+      const centerPosition = this.calcAbsolutePosition(arcDot.center, pathObject);
+      line.set({
+        x1: centerPosition.left,
+        y1: centerPosition.top,
+        x2: point.left,
+        y2: point.top,
+      });
+    });
+  }
+
+  /**
+   * 添加活跃节点相邻椭圆弧的半径及旋转变换点
+   */
+  private _updateArcDots() {
+    const vizpath = this.vizpath;
+    if (!vizpath) return;
+
+    const canvas = this.canvas;
+    if (!canvas) return;
+
+    const ui = vizpath.context.find(EditorUI);
+    const theme = ui?.theme ?? DEFAULT_THEME;
+
+    // 当前的活跃节点相邻的椭圆弧指令
+    const nodeObject = this.activeNodes.length === 1 ? this.activeNodes[0] : undefined;
+    const curPathNode = nodeObject ? this.objectNodeMap.get(nodeObject) : undefined;
+    const arcPathNodes: PathNode<ResponsiveCrood>[] = [];
+    if (curPathNode) {
+      const { pre, next } = vizpath.getNeighboringInstructions(curPathNode, true);
+      [curPathNode.instruction[0] === InstructionType.START ? pre : curPathNode, next].forEach(
+        (pathNode) => {
+          if (pathNode?.instruction[0] !== InstructionType.ARC) return;
+          if (arcPathNodes.includes(pathNode)) return;
+          arcPathNodes.push(pathNode);
+        },
+      );
+    }
+
+    canvas.renderOnAddRemove = false;
+    canvas.remove(...this.arcDots.map((i) => [i.point, i.line]).flat(1));
+
+    const arcDots: EditorArcDot[] = [];
+    arcPathNodes.forEach((pathNode) => {
+      (['rx', 'ry'] as const).forEach((type) => {
+        const reuseArcDot = this.arcDots.find(
+          (i) => i.type === type && i.pathNode === pathNode && i.node === nodeObject,
+        );
+        if (reuseArcDot) {
+          arcDots.push(reuseArcDot);
+          return;
+        }
+
+        const pointDecorator: ThemeDecorator<fabric.Object> = (customObject, callback) => {
+          customObject.set({
+            name: uuid(),
+            hasBorders: false,
+            hasControls: false,
+            originX: 'center',
+            originY: 'center',
+          });
+
+          deepIterateGroup(customObject, (object) => {
+            object.set({
+              objectCaching: false,
+            });
+          });
+
+          customObject[Editor.symbol] = EditorSymbolType.ARC_DOT;
+
+          if (ui && callback) {
+            ui.objectPreRenderCallbackMap.set(customObject, callback);
+          }
+
+          return customObject;
+        };
+        const arcDotTheme = ui?.theme?.arcDot ?? theme.dot;
+        let point = arcDotTheme(pointDecorator) as fabric.Object;
+        if (!point[Editor.symbol]) point = pointDecorator(point);
+
+        const lineDecorator: ThemeDecorator<fabric.Line> = (customObject, callback) => {
+          customObject.set({
+            name: uuid(),
+            strokeUniform: true,
+            selectable: false,
+            evented: false,
+            originX: 'center',
+            originY: 'center',
+            objectCaching: false,
+          });
+
+          customObject[Editor.symbol] = EditorSymbolType.LINE;
+
+          if (ui && callback) {
+            ui.objectPreRenderCallbackMap.set(customObject, callback);
+          }
+
+          return customObject;
+        };
+        let line = theme.line(lineDecorator);
+        if (!line[Editor.symbol]) line = lineDecorator(line);
+
+        const arcDot: EditorArcDot = {
+          type,
+          pathNode,
+          node: nodeObject!,
+          ...this._calcArcDotCroods({ type, pathNode }),
+          point,
+          line,
+        };
+
+        // 拖拽变换点时根据其相对圆心的位置更新椭圆弧的半径及旋转角度
+        observe(point, ['left', 'top'], ({ left, top }) => {
+          if (point.group) return;
+
+          const pathObject = vizpath.getPath(pathNode.segment)?.pathObject;
+          if (!pathObject) return;
+
+          const centerPosition = this.calcAbsolutePosition(arcDot.center, pathObject);
+          line.set({
+            x1: centerPosition.left,
+            y1: centerPosition.top,
+            x2: left,
+            y2: top,
+          });
+
+          if (point.canvas?.getActiveObject() !== point || this._followingTarget) return;
+
+          // 锁定的变换点还原到椭圆弧对应的位置
+          if (this.isLocked(point, 'move')) {
+            const { dot } = this._calcArcDotCroods(arcDot);
+            point.set(this.calcAbsolutePosition(dot, pathObject)).setCoords();
+            return;
+          }
+
+          const crood = this.calcRelativeCrood({ left: left!, top: top! }, pathObject);
+          const radius = calcCroodsDistance(crood, arcDot.center);
+          const angle =
+            (Math.atan2(crood.y - arcDot.center.y, crood.x - arcDot.center.x) * 180) / Math.PI;
+
+          vizpath.updateArc(
+            pathNode,
+            type === 'rx' ? { rx: radius, rotation: angle } : { ry: radius, rotation: angle - 90 },
+          );
+        });
+
+        arcDots.push(arcDot);
+      });
+    });
+
+    // 不再使用的变换点需要清除主题的渲染回调
+    this.arcDots.forEach(({ point, line }) => {
+      if (arcDots.some((i) => i.point === point)) return;
+      ui?.objectPreRenderCallbackMap.delete(point);
+      ui?.objectPreRenderCallbackMap.delete(line);
+    });
+
+    const baseIndex = canvas._objects.indexOf(this.paths[0]?.pathObject) + this.paths.length;
+    arcDots.forEach((i, idx) => {
+      canvas.insertAt(i.line, baseIndex + idx, false);
+      canvas.add(i.point);
+    });
+    this.arcDots = arcDots;
+    this._refreshArcDots();
+
+    canvas.renderOnAddRemove = true;
+    canvas.requestRenderAll();
+
+    this._fireLock();
   }
 
   /**
@@ -1231,6 +1714,14 @@ class Editor extends EditorModule<{
         this.currentConvertNodeObject = event.target as fabric.Object;
       }
 
+      if (
+        this.currentConvertNodeObject &&
+        (this.isLocked(this.currentConvertNodeObject, 'convert') ||
+          !this._fireBeforeEvent('beforeConvert', { object: this.currentConvertNodeObject }))
+      ) {
+        this.currentConvertNodeObject = null;
+      }
+
       if (this.currentConvertNodeObject) {
         fireMouseUpAndSelect(this.currentConvertNodeObject);
         this.currentConvertNodeObject.set({ lockMovementX: true, lockMovementY: true });
@@ -1288,6 +1779,13 @@ class Editor extends EditorModule<{
         this.vizpath?.replace(item[1], newInstruction);
       });
 
+      // 同时拖出两侧曲线变换点时两侧完全对称
+      const nodeType = convertibleNodes.length > 1 ? PathNodeType.SYMMETRIC : PathNodeType.CORNER;
+      if (targetNode.nodeType !== nodeType) {
+        this.vizpath?.setNodeType(targetNode, nodeType);
+        this._fireNodeType();
+      }
+
       const targetCurveDot = this.curveDots.find((i) => {
         return i.pathNode === targetNode && i.type === convertibleNodes[0]?.[0];
       });
@@ -1318,7 +1816,8 @@ class Editor extends EditorModule<{
       // 单选删除
       if (
         event.target?.[Editor.symbol] === EditorSymbolType.NODE ||
-        event.target?.[Editor.symbol] === EditorSymbolType.CURVE_DOT
+        event.target?.[Editor.symbol] === EditorSymbolType.CURVE_DOT ||
+        event.target?.[Editor.symbol] === EditorSymbolType.ARC_DOT
       ) {
         this.remove(event.target);
       }
@@ -1330,6 +1829,54 @@ class Editor extends EditorModule<{
     });
   }
 
+  /**
+   * 初始隔离画布与挂载画布的同步及点击转发事件
+   */
+  private _initIsolationEvents(vizpath: VizPath) {
+    const mountCanvas = this.mountCanvas;
+    if (!mountCanvas) return;
+
+    // 挂载画布的缩放、平移、尺寸等变更最终都会触发重新渲染
+    const handler = this._syncIsolationCanvas.bind(this);
+    mountCanvas.on('before:render', handler);
+    this.listeners.push({ type: 'mount', eventName: 'before:render', handler });
+
+    vizpath.on('enterEditing', (target) => {
+      this._isolationTarget = { object: target, matrix: target.calcTransformMatrix() };
+    });
+    vizpath.on('commit', () => {
+      this._isolationTarget = null;
+    });
+    vizpath.on('cancel', () => {
+      this._isolationTarget = null;
+    });
+
+    // 未命中编辑器对象的点击转发到挂载画布
+    let blankPointer: { x: number; y: number } | null = null;
+    this.addCanvasEvent('mouse:down', (event: fabric.IEvent<MouseEvent>) => {
+      blankPointer = null;
+      if (!this.isolationOptions.forwardClicks) return;
+      if (event.target || this.get('mode') === Mode.ADD) return;
+
+      blankPointer = { x: event.e.clientX, y: event.e.clientY };
+    });
+    this.addCanvasEvent('mouse:up', (event: fabric.IEvent<MouseEvent>) => {
+      const pointer = blankPointer;
+      blankPointer = null;
+      if (!pointer || !this.mountCanvas) return;
+
+      // 框选等拖拽操作不转发
+      const { clientX, clientY } = event.e;
+      if (Math.hypot(clientX - pointer.x, clientY - pointer.y) > CLICK_TOLERANCE) return;
+
+      const rect = this.mountCanvas.getSelectionElement().getBoundingClientRect();
+      fireFabricMouseDown(this.mountCanvas, { x: clientX - rect.left, y: clientY - rect.top });
+      fireFabricMouseUp(this.mountCanvas);
+    });
+
+    this._syncIsolationCanvas();
+  }
+
   /**
    * 变换节点
    * @param object 路径节点
@@ -1349,13 +1896,45 @@ class Editor extends EditorModule<{
     followCurveDots: ResponsiveCrood[] = [],
   ) {
     const pathNode = this.objectNodeMap.get(object);
-    if (!pathNode) return;
+    if (!pathNode || this._followingTarget) return;
 
     const { node } = pathNode;
+    const pathObject = this.nodePathMap.get(node!)!.pathObject;
+
+    let { left, top } = options;
+    const { scaleX = 1, scaleY = 1, angle = 0 } = options;
+
+    if (!this._correctingMove) {
+      const origin = this.calcAbsolutePosition(node!, pathObject);
+      const constrainedPosition = this._constrainMove(object, { left, top }, origin);
+      const event = constrainedPosition
+        ? this._fireBeforeEvent('beforeMove', { object, position: constrainedPosition })
+        : undefined;
+      // 处理函数修改后的位置仍需满足移动约束
+      const position = (event && this._constrainMove(object, event.position, origin)) ?? origin;
+
+      // 移动被取消或修改时，将节点对象修正到最终的位置
+      if (position.left !== left || position.top !== top) {
+        this._correctingMove = true;
+        if (object.group) {
+          const relativePosition = this.calcRelativeCrood(position, object.group);
+          object.set({ left: relativePosition.x, top: relativePosition.y }).setCoords();
+        } else {
+          object.set(position).setCoords();
+        }
+        this._correctingMove = false;
 
-    const { left, top, scaleX = 1, scaleY = 1, angle = 0 } = options;
+        if (!event) {
+          object.canvas?.requestRenderAll();
+          return;
+        }
 
-    const newCrood = this.calcRelativeCrood({ left, top }, this.nodePathMap.get(node!)!.pathObject);
+        left = position.left;
+        top = position.top;
+      }
+    }
+
+    const newCrood = this.calcRelativeCrood({ left, top }, pathObject);
 
     // 需要跟随变化的曲线曲线变换点
     followCurveDots.forEach((curveDot) => {
@@ -1386,6 +1965,51 @@ class Editor extends EditorModule<{
     object.canvas?.requestRenderAll();
   }
 
+  /**
+   * 触发事件
+   *
+   * @note 前置事件单独声明，事件名为泛型时也能推断出对应的事件对象类型
+   */
+  fire<Name extends keyof EditorBeforeEventParams>(
+    eventName: Name,
+    event: EditorBeforeEvent<EditorBeforeEventParams[Name]>,
+  ): void;
+  fire<Event extends keyof EditorEvents>(
+    eventName: Event,
+    ...data: Parameters<EditorEvents[Event]>
+  ): void;
+  fire<Event extends keyof EditorEvents>(
+    eventName: Event,
+    ...data: Parameters<EditorEvents[Event]>
+  ) {
+    super.fire(eventName, ...data);
+  }
+
+  /**
+   * 触发可取消的前置事件
+   *
+   * @returns 经过处理函数修改后的事件参数，操作被取消时返回undefined
+   */
+  private _fireBeforeEvent<Name extends keyof EditorBeforeEventParams>(
+    eventName: Name,
+    params: EditorBeforeEventParams[Name],
+  ) {
+    let defaultPrevented = false;
+    const event = {
+      ...params,
+      preventDefault: () => {
+        defaultPrevented = true;
+      },
+      get defaultPrevented() {
+        return defaultPrevented;
+      },
+    } as EditorBeforeEvent<EditorBeforeEventParams[Name]>;
+
+    this.fire(eventName, event);
+
+    return defaultPrevented ? undefined : event;
+  }
+
   /**
    * 请求对特定功能禁用
    *
@@ -1425,6 +2049,234 @@ class Editor extends EditorModule<{
     return true;
   }
 
+  /**
+   * 获取锁定配置的键值
+   * @param target 节点、曲线变换点、椭圆弧变换点对象或整个路径段
+   */
+  private _getLockKeys(target: fabric.Object | PathNode[]) {
+    if (Array.isArray(target)) {
+      return target
+        .filter((pathNode) => pathNode.id)
+        .map(({ id }) => [id!, ...['pre', 'next', 'rx', 'ry'].map((type) => `${id}:${type}`)])
+        .flat(1);
+    }
+
+    let pathNode: PathNode | undefined;
+    let type: string | undefined;
+    switch (target[Editor.symbol]) {
+      case EditorSymbolType.NODE:
+        pathNode = this.objectNodeMap.get(target);
+        break;
+      case EditorSymbolType.CURVE_DOT:
+        ({ pathNode, type } = this.curveDots.find((i) => i.point === target) ?? {});
+        break;
+      case EditorSymbolType.ARC_DOT:
+        ({ pathNode, type } = this.arcDots.find((i) => i.point === target) ?? {});
+        break;
+      default:
+        break;
+    }
+
+    if (!pathNode?.id) return [];
+
+    return [type ? `${pathNode.id}:${type}` : pathNode.id];
+  }
+
+  /**
+   * 通知锁定状态变化
+   * @param force 没有任何锁定时也需要通知
+   */
+  private _fireLock(force = false) {
+    if (!force && !this.locks.size) return;
+    this.fire('lock', this.getLockedObjects());
+  }
+
+  /**
+   * 锁定节点、变换点或整个路径段
+   *
+   * @param target 节点、曲线变换点、椭圆弧变换点对象或路径段
+   * @param types 锁定项，默认全部锁定
+   *
+   * @note 锁定以路径节点标识记录，节点对象重建后依然有效；锁定的曲线变换点仍会跟随所属节点移动
+   *
+   * @example
+   *
+   * // 模板锚点不允许移动和删除
+   * editor.lock(anchorObject, ['move', 'remove']);
+   *
+   * // 锁定整个路径段
+   * editor.lock(vizpath.paths[0].segment);
+   */
+  lock(
+    target: fabric.Object | PathNode[],
+    types: EditorLockType[] = ['move', 'remove', 'convert'],
+  ) {
+    this._getLockKeys(target).forEach((key) => {
+      const lockTypes = this.locks.get(key) ?? [];
+      this.locks.set(key, [...new Set([...lockTypes, ...types])]);
+    });
+
+    this._fireLock();
+  }
+
+  /**
+   * 解除锁定
+   *
+   * @param target 节点、曲线变换点、椭圆弧变换点对象或路径段
+   * @param types 解除的锁定项，默认全部解除
+   */
+  unlock(
+    target: fabric.Object | PathNode[],
+    types: EditorLockType[] = ['move', 'remove', 'convert'],
+  ) {
+    this._getLockKeys(target).forEach((key) => {
+      const lockTypes = (this.locks.get(key) ?? []).filter((type) => !types.includes(type));
+      if (lockTypes.length) this.locks.set(key, lockTypes);
+      else this.locks.delete(key);
+    });
+
+    this._fireLock(true);
+  }
+
+  /**
+   * 判断对象是否被锁定
+   *
+   * @param object 节点、曲线变换点或椭圆弧变换点对象
+   * @param type 锁定项，不传则判断是否存在任意锁定项
+   */
+  isLocked(object: fabric.Object, type?: EditorLockType) {
+    return this._getLockKeys(object).some((key) => {
+      const lockTypes = this.locks.get(key);
+      if (!lockTypes) return false;
+      return type ? lockTypes.includes(type) : lockTypes.length > 0;
+    });
+  }
+
+  /**
+   * 获取当前画布中被锁定的节点及变换点对象
+   */
+  getLockedObjects() {
+    return [
+      ...this.nodes,
+      ...this.curveDots.map((i) => i.point),
+      ...this.arcDots.map((i) => i.point),
+    ].filter((object) => this.isLocked(object));
+  }
+
+  /**
+   * 约束节点的移动方向
+   *
+   * @param target 节点对象或路径段
+   * @param constraint 移动约束，传入null则解除约束
+   *
+   * @example
+   *
+   * // 仅允许水平移动
+   * editor.constrain(nodeObject, 'x');
+   *
+   * // 沿45°方向移动
+   * editor.constrain(nodeObject, { x: 1, y: 1 });
+   */
+  constrain(target: fabric.Object | PathNode[], constraint: EditorAxisConstraint | null) {
+    const pathNodes = Array.isArray(target) ? target : [this.objectNodeMap.get(target)];
+    pathNodes.forEach((pathNode) => {
+      if (!pathNode?.id) return;
+      if (constraint) this.constraints.set(pathNode.id, constraint);
+      else this.constraints.delete(pathNode.id);
+    });
+  }
+
+  /**
+   * 获取节点的移动约束
+   */
+  getConstraint(object: fabric.Object) {
+    const id = this.objectNodeMap.get(object)?.id;
+    return id ? this.constraints.get(id) : undefined;
+  }
+
+  /**
+   * 根据锁定及约束修正节点的移动位置
+   *
+   * @param object 节点对象
+   * @param position 移动后的画布绝对位置
+   * @param origin 移动前的画布绝对位置
+   * @returns 修正后的位置，节点锁定移动时返回undefined
+   */
+  private _constrainMove(object: fabric.Object, position: Position, origin: Position) {
+    if (this.isLocked(object, 'move')) return;
+
+    const constraint = this.getConstraint(object);
+    if (!constraint) return position;
+    if (constraint === 'x') return { left: position.left, top: origin.top };
+    if (constraint === 'y') return { left: origin.left, top: position.top };
+
+    // 将位移投影到约束方向上
+    const length = Math.hypot(constraint.x, constraint.y);
+    if (!length) return position;
+
+    const unit = { x: constraint.x / length, y: constraint.y / length };
+    const distance = (position.left - origin.left) * unit.x + (position.top - origin.top) * unit.y;
+
+    return {
+      left: origin.left + distance * unit.x,
+      top: origin.top + distance * unit.y,
+    };
+  }
+
+  /**
+   * 获取节点类型，未设置类型的节点会根据两侧曲线变换点推断
+   */
+  getNodeType(object: fabric.Object) {
+    const pathNode = this.objectNodeMap.get(object);
+    if (!pathNode?.node) return;
+
+    return (
+      pathNode.nodeType ??
+      inferNodeType(pathNode.node, pathNode.curveDots?.pre, pathNode.curveDots?.next)
+    );
+  }
+
+  /**
+   * 设置节点类型
+   *
+   * @param nodeType 节点类型
+   * @param objects 节点对象列表，不传则为当前选中的节点
+   *
+   * @note 锁定转换的节点不会更改类型
+   */
+  setNodeType(nodeType: `${PathNodeType}`, ...objects: fabric.Object[]) {
+    const vizpath = this.vizpath;
+    if (!vizpath) return;
+
+    const targets = (objects.length ? objects : this.activeNodes).filter(
+      (object) => !this.isLocked(object, 'convert'),
+    );
+
+    vizpath.transaction(() => {
+      targets.forEach((object) => {
+        const pathNode = this.objectNodeMap.get(object);
+        if (pathNode) vizpath.setNodeType(pathNode, nodeType);
+      });
+    });
+
+    this._fireNodeType();
+
+    // 选中变换点的对称模式需要跟随节点类型
+    if (this.activePoint) this.focus(this.activePoint);
+  }
+
+  /**
+   * 通知节点类型变化
+   */
+  private _fireNodeType() {
+    const nodeTypes = new Map<fabric.Object, `${PathNodeType}`>([]);
+    this.nodes.forEach((object) => {
+      const nodeType = this.getNodeType(object);
+      if (nodeType) nodeTypes.set(object, nodeType);
+    });
+    this.fire('nodeType', nodeTypes);
+  }
+
   /**
    * 添加新的路径节点
    *
@@ -1442,6 +2294,10 @@ class Editor extends EditorModule<{
     const vizpath = this.vizpath;
     if (!vizpath) return;
 
+    const event = this._fireBeforeEvent('beforeAdd', { position: { ...position } });
+    if (!event) return;
+    position = event.position;
+
     if (this.activeNodes.length === 1) {
       const node = this.activeNodes[0];
 
@@ -1505,6 +2361,8 @@ class Editor extends EditorModule<{
    *
    * 2）删除1个变换点，实现曲线路径降级为直线路径
    *
+   * 3）删除1个椭圆弧变换点，实现椭圆弧降级为直线路径
+   *
    * @param objects 点对象(路径节点、变换点)列表
    */
   remove(...objects: fabric.Object[]) {
@@ -1514,8 +2372,16 @@ class Editor extends EditorModule<{
     const canvas = this.canvas;
     if (!canvas) return;
 
+    objects = objects.filter((object) => !this.isLocked(object, 'remove'));
+    if (!objects.length) return;
+
+    const event = this._fireBeforeEvent('beforeRemove', { objects: [...objects] });
+    if (!event) return;
+    objects = event.objects;
+
     const nodeObjects = objects.filter((i) => i[Editor.symbol] === EditorSymbolType.NODE);
     const pointObjects = objects.filter((i) => i[Editor.symbol] === EditorSymbolType.CURVE_DOT);
+    const arcPointObjects = objects.filter((i) => i[Editor.symbol] === EditorSymbolType.ARC_DOT);
 
     if (nodeObjects.length) {
       const removeNodes: ResponsiveCrood[] = [];
@@ -1535,6 +2401,11 @@ class Editor extends EditorModule<{
       const { type, node } = this.curveDots.find((i) => i.point === pointObjects[0])!;
       this.degrade(node, type);
     }
+
+    if (arcPointObjects.length) {
+      const { pathNode, node } = this.arcDots.find((i) => i.point === arcPointObjects[0])!;
+      this.degrade(node, this.objectNodeMap.get(node) === pathNode ? 'pre' : 'next', true);
+    }
   }
 
   /**
@@ -1549,6 +2420,12 @@ class Editor extends EditorModule<{
 
     if (!this.vizpath) return;
 
+    if (this.isLocked(object, 'convert')) return;
+
+    const event = this._fireBeforeEvent('beforeUpgrade', { object, direction });
+    if (!event) return;
+    direction = event.direction;
+
     const pathNode = this.objectNodeMap.get(object);
     if (!pathNode) return;
 
@@ -1573,7 +2450,7 @@ class Editor extends EditorModule<{
 
     targets.forEach(([direction, pathNode]) => {
       const oldInstruction = pathNode.instruction;
-      if (oldInstruction[0] === InstructionType.BEZIER_CURVE) return;
+      if ([InstructionType.BEZIER_CURVE, InstructionType.ARC].includes(oldInstruction[0])) return;
 
       const newInstruction = [...oldInstruction] as Instruction;
       newInstruction[0] = {
@@ -1602,6 +2479,12 @@ class Editor extends EditorModule<{
 
     if (!this.vizpath) return;
 
+    if (this.isLocked(object, 'convert')) return;
+
+    const event = this._fireBeforeEvent('beforeDegrade', { object, direction, lowest });
+    if (!event) return;
+    ({ direction, lowest } = event);
+
     const pathNode = this.objectNodeMap.get(object);
     if (!pathNode) return;
 
@@ -1628,7 +2511,8 @@ class Editor extends EditorModule<{
 
       const newInstruction = [...oldInstruction] as Instruction;
 
-      if (lowest) {
+      // 椭圆弧直接降级为直线
+      if (lowest || oldInstruction[0] === InstructionType.ARC) {
         newInstruction[0] = InstructionType.LINE;
         newInstruction.splice(1, newInstruction.length - 3);
       } else {
@@ -1643,6 +2527,56 @@ class Editor extends EditorModule<{
     });
   }
 
+  /**
+   * 简化选中节点之间的路径，移除多余的路径节点并重新拟合曲线
+   *
+   * @param tolerance 容差距离，简化后的路径与原路径的误差不超过该值
+   */
+  simplify(tolerance = 1) {
+    if (this.disabledFunctionTokens.remove?.length) return;
+
+    const vizpath = this.vizpath;
+    if (!vizpath) return;
+
+    const pathNodes = this.activeNodes
+      .map((object) => this.objectNodeMap.get(object))
+      .filter(Boolean) as PathNode<ResponsiveCrood>[];
+    if (pathNodes.length < 3) return;
+
+    const paths = new Set(pathNodes.map((pathNode) => vizpath.getPath(pathNode.segment)!));
+
+    vizpath.transaction(() => {
+      paths.forEach((path) => {
+        vizpath.simplify(path, tolerance, pathNodes);
+      });
+    });
+  }
+
+  /**
+   * 平滑选中的路径节点，自动生成切线连续的曲线控制点
+   *
+   * @param tension 张力，取值 0 ~ 1，越大曲线越贴近原有折线
+   */
+  smooth(tension = 0) {
+    if (this.disabledFunctionTokens.upgrade?.length) return;
+
+    const vizpath = this.vizpath;
+    if (!vizpath) return;
+
+    const pathNodes = this.activeNodes
+      .map((object) => this.objectNodeMap.get(object))
+      .filter(Boolean) as PathNode<ResponsiveCrood>[];
+    if (!pathNodes.length) return;
+
+    const paths = new Set(pathNodes.map((pathNode) => vizpath.getPath(pathNode.segment)!));
+
+    vizpath.transaction(() => {
+      paths.forEach((path) => {
+        vizpath.smooth(path, pathNodes, tension);
+      });
+    });
+  }
+
   /**
    * 判断两点是否可以相连
    */
@@ -1673,6 +2607,10 @@ class Editor extends EditorModule<{
   link(sourceObject: fabric.Object, targetObject: fabric.Object) {
     if (!this.checkLinkable(sourceObject, targetObject)) return;
 
+    if (!this._fireBeforeEvent('beforeLink', { source: sourceObject, target: targetObject })) {
+      return;
+    }
+
     const vizpath = this.vizpath;
     if (!vizpath) return;
 
@@ -1685,40 +2623,53 @@ class Editor extends EditorModule<{
       return target;
     }
 
-    // 不同路径需要进行合并
-    let sourcePath = source.segment.map((i) => i.instruction);
-    let targetPath = target.segment.map((i) => i.instruction);
-
-    if (source.instruction === sourcePath[0]) {
-      sourcePath = reversePath(sourcePath);
-    }
-    if (target.instruction === targetPath[targetPath.length - 1]) {
-      targetPath = reversePath(targetPath);
-    }
-    targetPath.splice(0, 1, [InstructionType.LINE, targetPath[0][1], targetPath[0][2]]);
-    targetPath.map((item) => {
-      const instruction = item;
-      for (let i = 0; i < instruction.length - 1; i += 2) {
+    // 不同路径需要进行合并，节点标识及类型跟随路径方向，保证合并后节点标识不变
+    const {
+      source: sourcePath,
+      target: linkTargetPath,
+      ids: mergeIds,
+      nodeTypes: mergeTypes,
+      joinIndex,
+    } = linkSegments(source, target);
+
+    const sourcePathObject = vizpath.getPath(source.segment)!.pathObject;
+    const targetPathObject = vizpath.getPath(target.segment)!.pathObject;
+    // 椭圆弧的半径及角度参数只受两个路径对象间的线性变换影响
+    const arcMatrix = fabric.util.multiplyTransformMatrices(
+      fabric.util.invertTransform(sourcePathObject.calcTransformMatrix()),
+      targetPathObject.calcTransformMatrix(),
+    );
+    const targetPath = linkTargetPath.map((item) => {
+      const isArc = item[0] === InstructionType.ARC;
+      const instruction = isArc ? transformArc(item, arcMatrix) : item;
+      for (let i = isArc ? instruction.length - 3 : 0; i < instruction.length - 1; i += 2) {
         const position = this.calcAbsolutePosition(
           new fabric.Point(instruction[i + 1] as number, instruction[i + 2] as number),
-          vizpath.getPath(target.segment)!.pathObject,
+          targetPathObject,
         );
-        const crood = this.calcRelativeCrood(position, vizpath.getPath(source.segment)!.pathObject);
+        const crood = this.calcRelativeCrood(position, sourcePathObject);
         instruction[i + 1] = crood.x;
         instruction[i + 2] = crood.y;
       }
+      return instruction;
     });
-    const joinIndex = sourcePath.length;
     const mergePath = sourcePath.concat(targetPath);
 
     // 合并后添加回路径段集合
-    const newPath = vizpath.onceRerenderOriginPath(() => {
+    const newPath = vizpath.transaction(() => {
       vizpath.clear(target.segment);
-      return vizpath.replacePathSegments(vizpath.getPath(source.segment)!, [
+      const newPath = vizpath.replacePathSegments(vizpath.getPath(source.segment)!, [
         mergePath,
       ] as Instruction[][]);
+      newPath[0].segment.forEach((pathNode, index) => {
+        pathNode.id = mergeIds[index];
+        pathNode.nodeType = mergeTypes[index];
+      });
+      return newPath;
     });
 
+    this._fireNodeType();
+
     return newPath[0].segment[joinIndex];
   }
 
@@ -1729,6 +2680,7 @@ class Editor extends EditorModule<{
     // 提取有效活跃元素
     const focusNodes: fabric.Object[] = [];
     const focusCurveDotPoints: fabric.Object[] = [];
+    const focusArcDotPoints: fabric.Object[] = [];
     selectedObjects.forEach((object) => {
       switch (object[Editor.symbol]) {
         case EditorSymbolType.NODE:
@@ -1737,6 +2689,9 @@ class Editor extends EditorModule<{
         case EditorSymbolType.CURVE_DOT:
           focusCurveDotPoints.push(object);
           break;
+        case EditorSymbolType.ARC_DOT:
+          focusArcDotPoints.push(object);
+          break;
         default:
           break;
       }
@@ -1792,6 +2747,16 @@ class Editor extends EditorModule<{
       canvas.setActiveObject(activePoint.point);
       this.fire('selected', this.activeNodes, this.activePoint);
     }
+    // 椭圆弧变换点同样只允许单个聚焦
+    else if (focusArcDotPoints.length === 1) {
+      const { node } = this.arcDots.find((i) => i.point === focusArcDotPoints[0])!;
+      this.activeNodes = [node];
+      this._updateCurveDots();
+
+      this.activePoint = focusArcDotPoints[0];
+      canvas.setActiveObject(this.activePoint);
+      this.fire('selected', this.activeNodes, this.activePoint);
+    }
     // 如都不符合上面情况则是所有节点都失去焦点
     else {
       this.activeNodes = [];
@@ -1802,27 +2767,16 @@ class Editor extends EditorModule<{
 
     this._deactivateSelectListeners = false;
 
-    // 如果当前选中的是变换点需要确定其自动变换的模式
-    if (this.activePoint) {
+    // 如果当前选中的是变换点需要根据所属节点的类型确定其自动变换的模式
+    if (this.activePoint?.[Editor.symbol] === EditorSymbolType.CURVE_DOT) {
       const dot = this.curveDots.find((i) => i.point === this.activePoint)!;
-      const relativeDot = this.getRelativeCurveDot(this.activePoint)!;
-      if (
-        relativeDot &&
-        180 - calcCroodsAngle(dot.curveDot, dot.pathNode.node!, relativeDot.curveDot) <=
-          this.deviation
-      ) {
-        this.dotSymmetricAutoMode = 'angle';
-        if (
-          Math.abs(
-            calcCroodsDistance(dot.curveDot, dot.pathNode.node!) -
-              calcCroodsDistance(dot.pathNode.node!, relativeDot.curveDot),
-          ) <= this.deviation
-        ) {
-          this.dotSymmetricAutoMode = 'entire';
-        }
-      } else {
-        this.dotSymmetricAutoMode = 'none';
-      }
+      this.dotSymmetricAutoMode = (
+        {
+          [PathNodeType.CORNER]: 'none',
+          [PathNodeType.SMOOTH]: 'angle',
+          [PathNodeType.SYMMETRIC]: 'entire',
+        } as const
+      )[this.getNodeType(dot.node) ?? PathNodeType.CORNER];
     } else {
       this.dotSymmetricAutoMode = 'none';
     }
@@ -1841,18 +2795,24 @@ class Editor extends EditorModule<{
       ...this.nodes,
       ...this.curveDots.map((i) => i.point),
       ...this.curveDots.map((i) => i.line),
+      ...this.arcDots.map((i) => i.point),
+      ...this.arcDots.map((i) => i.line),
     );
 
     // 节点相关配置
     this.nodes.length = 0;
     this.curveDots.length = 0;
+    this.arcDots.length = 0;
     this.activeNodes.length = 0;
     this.activePoint = null;
     this.currentConvertNodeObject = null;
     this.objectNodeMap.clear();
     this.nodeObjectMap.clear();
+    this.locks.clear();
+    this.constraints.clear();
 
     this._deactivateSelectListeners = false;
+    this._correctingMove = false;
     this._abandonedPool.nodes.length = 0;
     this._abandonedPool.points.length = 0;
     this._abandonedPool.lines.length = 0;
@@ -1865,16 +2825,23 @@ class Editor extends EditorModule<{
     this.listeners.forEach(({ type, eventName, handler }) => {
       if (type === 'global') this.removeGlobalEvent(eventName, handler);
       if (type === 'canvas') this.removeCanvasEvent(eventName, handler);
+      if (type === 'mount') this.mountCanvas?.off(eventName, handler);
     });
+    const isolation = this.isolation;
     this.mountCanvas = null;
     this.canvas = null;
     this.isolation = false;
     this.listeners.length = 0;
     this.disabledFunctionTokens = {};
-
-    // 如果是隔离画布要销毁克隆画布
-    if (this.isolation) canvas.dispose();
-    else canvas.requestRenderAll();
+    this._followingTarget = false;
+    this._isolationTarget = null;
+
+    // 如果是隔离画布要销毁克隆画布并移除画布元素
+    if (isolation) {
+      const element = canvas.getElement();
+      canvas.dispose();
+      element.remove();
+    } else canvas.requestRenderAll();
   }
 
   async load(vizpath: VizPath) {
@@ -1890,6 +2857,7 @@ class Editor extends EditorModule<{
 
     this._initDrawPathListener(vizpath);
     this._initClearPathListener(vizpath);
+    this._initUpdatePathListener(vizpath);
 
     this._initDrawNodeEvents(vizpath);
     this._initClearNodeEvents(vizpath);
@@ -1897,6 +2865,8 @@ class Editor extends EditorModule<{
     this._initAddNodeEvents();
     this._initConvertNodeEvents();
     this._initDeleteNodeEvents();
+
+    if (this.isolation) this._initIsolationEvents(vizpath);
   }
 }
 
@@ -0,0 +1,381 @@
+import { Bezier } from 'bezier-js';
+import { InstructionType, type Instruction } from '../instruction';
+
+export type BooleanOperation = 'union' | 'intersection' | 'difference' | 'exclusion' | 'divide';
+
+/** 线段的来源指令，保存起始点在内的所有控制点 */
+type EdgeSource = { points: Crood[]; curve?: Bezier };
+
+/** 曲线离散后的线段，t0、t1 为线段在来源指令上的参数范围 */
+type Edge = {
+  from: Crood;
+  to: Crood;
+  source: EdgeSource;
+  t0: number;
+  t1: number;
+  operand: number;
+};
+
+/** 误差值 */
+const EPSILON = 1e-9;
+
+const cross = (a: Crood, b: Crood) => a.x * b.y - a.y * b.x;
+
+const toKey = (crood: Crood) => `${crood.x.toFixed(6)},${crood.y.toFixed(6)}`;
+
+/**
+ * 将路径离散为闭合的线段环，未闭合的子路径按填充规则视为闭合
+ */
+const flatten = (segments: Instruction[][], operand: number) => {
+  const edges: Edge[] = [];
+
+  const addSource = (points: Crood[]) => {
+    const source: EdgeSource = { points };
+
+    // 直线无需离散
+    if (points.length === 2) {
+      if (Math.hypot(points[1].x - points[0].x, points[1].y - points[0].y) < EPSILON) return;
+      edges.push({ from: points[0], to: points[1], source, t0: 0, t1: 1, operand });
+      return;
+    }
+
+    const curve = new Bezier(points);
+    source.curve = curve;
+
+    const steps = Math.min(Math.max(Math.ceil(curve.length() / 2), 4), 100);
+    let from = points[0];
+    let t0 = 0;
+    for (let i = 1; i <= steps; i++) {
+      const t1 = i / steps;
+      const to = i === steps ? points[points.length - 1] : curve.get(t1);
+      if (Math.hypot(to.x - from.x, to.y - from.y) >= EPSILON) {
+        edges.push({ from, to, source, t0, t1, operand });
+        from = to;
+        t0 = t1;
+      }
+    }
+  };
+
+  segments.forEach((segment) => {
+    let start: Crood | undefined;
+    let current: Crood | undefined;
+    segment.forEach((instruction) => {
+      const [type, ...params] = instruction as [InstructionType, ...number[]];
+      const points: Crood[] = [];
+      for (let i = 0; i < params.length - 1; i += 2) {
+        points.push({ x: params[i], y: params[i + 1] });
+      }
+
+      switch (type) {
+        case InstructionType.START:
+          if (start && current) addSource([current, start]);
+          start = current = points[0];
+          break;
+        case InstructionType.LINE:
+        case InstructionType.QUADRATIC_CURCE:
+        case InstructionType.BEZIER_CURVE:
+          if (!current) return;
+          addSource([current, ...points]);
+          current = points[points.length - 1];
+          break;
+        default:
+          break;
+      }
+    });
+    if (start && current) addSource([current, start]);
+  });
+
+  return edges;
+};
+
+/**
+ * 判断点是否在线段集合构成的填充区域内
+ */
+const isInside = (edges: Edge[], point: Crood, fillRule: string) => {
+  let winding = 0;
+  edges.forEach(({ from, to }) => {
+    const isLeft = cross(
+      { x: to.x - from.x, y: to.y - from.y },
+      { x: point.x - from.x, y: point.y - from.y },
+    );
+    if (from.y <= point.y && to.y > point.y && isLeft > 0) winding++;
+    else if (to.y <= point.y && from.y > point.y && isLeft < 0) winding--;
+  });
+  return fillRule === 'evenodd' ? winding % 2 !== 0 : winding !== 0;
+};
+
+/**
+ * 在所有线段相交处拆分线段，相交点对象在相交的线段间共用以保证坐标完全一致
+ */
+const splitEdges = (edges: Edge[]) => {
+  const splits = edges.map(() => [] as { u: number; point: Crood }[]);
+
+  const addSplit = (index: number, u: number, point: Crood) => {
+    if (u <= EPSILON || u >= 1 - EPSILON) return;
+    splits[index].push({ u, point });
+  };
+
+  // 按包围盒左侧排序后扫描，减少无效的相交计算
+  const order = edges
+    .map((edge, index) => ({
+      index,
+      minX: Math.min(edge.from.x, edge.to.x),
+      maxX: Math.max(edge.from.x, edge.to.x),
+      minY: Math.min(edge.from.y, edge.to.y),
+      maxY: Math.max(edge.from.y, edge.to.y),
+    }))
+    .sort((a, b) => a.minX - b.minX);
+
+  for (let i = 0; i < order.length; i++) {
+    const boxA = order[i];
+    for (let j = i + 1; j < order.length; j++) {
+      const boxB = order[j];
+      if (boxB.minX > boxA.maxX + EPSILON) break;
+      if (boxB.minY > boxA.maxY + EPSILON || boxB.maxY < boxA.minY - EPSILON) continue;
+
+      const a = edges[boxA.index];
+      const b = edges[boxB.index];
+      const r = { x: a.to.x - a.from.x, y: a.to.y - a.from.y };
+      const s = { x: b.to.x - b.from.x, y: b.to.y - b.from.y };
+      const qp = { x: b.from.x - a.from.x, y: b.from.y - a.from.y };
+      const denominator = cross(r, s);
+
+      // 平行线段只处理共线重叠的情况，端点落在另一条线段上时拆分另一条线段
+      if (Math.abs(denominator) < EPSILON) {
+        if (Math.abs(cross(qp, r)) > EPSILON * Math.hypot(r.x, r.y) * 1e3) continue;
+        const rr = r.x * r.x + r.y * r.y;
+        const ss = s.x * s.x + s.y * s.y;
+        [b.from, b.to].forEach((point) => {
+          addSplit(
+            boxA.index,
+            ((point.x - a.from.x) * r.x + (point.y - a.from.y) * r.y) / rr,
+            point,
+          );
+        });
+        [a.from, a.to].forEach((point) => {
+          addSplit(
+            boxB.index,
+            ((point.x - b.from.x) * s.x + (point.y - b.from.y) * s.y) / ss,
+            point,
+          );
+        });
+        continue;
+      }
+
+      const u = cross(qp, s) / denominator;
+      const v = cross(qp, r) / denominator;
+      if (u < -EPSILON || u > 1 + EPSILON || v < -EPSILON || v > 1 + EPSILON) continue;
+
+      // 交点落在端点上时直接使用端点对象
+      let point: Crood;
+      if (u <= EPSILON) point = a.from;
+      else if (u >= 1 - EPSILON) point = a.to;
+      else if (v <= EPSILON) point = b.from;
+      else if (v >= 1 - EPSILON) point = b.to;
+      else point = { x: a.from.x + u * r.x, y: a.from.y + u * r.y };
+
+      addSplit(boxA.index, u, point);
+      addSplit(boxB.index, v, point);
+    }
+  }
+
+  const result: Edge[] = [];
+  edges.forEach((edge, index) => {
+    const points = splits[index].sort((a, b) => a.u - b.u);
+    let from = edge.from;
+    let t0 = edge.t0;
+    [...points, { u: 1, point: edge.to }].forEach(({ u, point }) => {
+      if (toKey(from) === toKey(point)) return;
+      const t1 = u === 1 ? edge.t1 : edge.t0 + (edge.t1 - edge.t0) * u;
+      result.push({ ...edge, from, to: point, t0, t1 });
+      from = point;
+      t0 = t1;
+    });
+  });
+
+  // 重叠的线段只保留一条
+  const edgeKeys = new Set<string>();
+  return result.filter((edge) => {
+    const keys = [toKey(edge.from), toKey(edge.to)].sort().join('|');
+    if (edgeKeys.has(keys)) return false;
+    edgeKeys.add(keys);
+    return true;
+  });
+};
+
+/**
+ * 将保留的线段连接成闭合环，并将来自同一指令的连续线段还原为指令
+ */
+const buildRings = (edges: Edge[]) => {
+  const outgoing = new Map<string, Edge[]>();
+  edges.forEach((edge) => {
+    const key = toKey(edge.from);
+    outgoing.set(key, [...(outgoing.get(key) ?? []), edge]);
+  });
+
+  const used = new Set<Edge>();
+  const rings: Edge[][] = [];
+  edges.forEach((first) => {
+    if (used.has(first)) return;
+
+    const ring: Edge[] = [];
+    let edge: Edge | undefined = first;
+    while (edge && !used.has(edge)) {
+      used.add(edge);
+      ring.push(edge);
+      if (toKey(edge.to) === toKey(first.from)) break;
+
+      // 多条出边时选择向填充区域一侧偏转最多的线段，避免环自身交叉
+      const current: Edge = edge;
+      const direction = { x: current.to.x - current.from.x, y: current.to.y - current.from.y };
+      const candidates = (outgoing.get(toKey(current.to)) ?? []).filter((i) => !used.has(i));
+      edge = candidates.sort((a, b) => {
+        const turn = (item: Edge) => {
+          const next = { x: item.to.x - item.from.x, y: item.to.y - item.from.y };
+          return Math.atan2(cross(direction, next), direction.x * next.x + direction.y * next.y);
+        };
+        return turn(b) - turn(a);
+      })[0];
+    }
+
+    if (ring.length >= 2 && toKey(ring[ring.length - 1].to) === toKey(ring[0].from)) {
+      rings.push(ring);
+    }
+  });
+
+  const isContinuous = (a: Edge, b: Edge) =>
+    a.source === b.source && Math.abs(a.t1 - b.t0) < EPSILON;
+
+  return rings.map((ring) => {
+    // 从不连续的位置开始，避免同一指令被拆成首尾两段
+    const startIndex = ring.findIndex(
+      (edge, i) => !isContinuous(ring[(i - 1 + ring.length) % ring.length], edge),
+    );
+    const edges = startIndex > 0 ? [...ring.slice(startIndex), ...ring.slice(0, startIndex)] : ring;
+
+    const segment: Instruction[] = [[InstructionType.START, edges[0].from.x, edges[0].from.y]];
+    let run: Edge[] = [];
+    const flush = () => {
+      if (!run.length) return;
+      const { source } = run[0];
+      const t0 = run[0].t0;
+      const t1 = run[run.length - 1].t1;
+      const to = run[run.length - 1].to;
+
+      if (!source.curve || (t0 === 0 && t1 === 1) || (t0 === 1 && t1 === 0)) {
+        const points = t0 > t1 ? [...source.points].reverse() : source.points;
+        const type = [
+          InstructionType.LINE,
+          InstructionType.LINE,
+          InstructionType.QUADRATIC_CURCE,
+          InstructionType.BEZIER_CURVE,
+        ][points.length - 1];
+        const croods = source.curve ? points.slice(1, -1) : [];
+        segment.push([type, ...croods.flatMap((i) => [i.x, i.y]), to.x, to.y] as Instruction);
+      } else {
+        const points = source.curve
+          .split(Math.min(t0, t1), Math.max(t0, t1))
+          .points.map(({ x, y }) => ({ x, y }));
+        if (t0 > t1) points.reverse();
+        const type =
+          points.length === 3 ? InstructionType.QUADRATIC_CURCE : InstructionType.BEZIER_CURVE;
+        segment.push([
+          type,
+          ...points.slice(1, -1).flatMap((i) => [i.x, i.y]),
+          to.x,
+          to.y,
+        ] as Instruction);
+      }
+      run = [];
+    };
+    edges.forEach((edge) => {
+      if (run.length && !isContinuous(run[run.length - 1], edge)) flush();
+      run.push(edge);
+    });
+    flush();
+    segment.push([InstructionType.CLOSE]);
+
+    return segment;
+  });
+};
+
+/**
+ * 路径布尔运算
+ *
+ * @param operation 运算类型
+ *
+ * union 并集；intersection 交集；difference 差集（第一个路径减去其余路径）；
+ * exclusion 排除（被奇数个路径覆盖的区域）；divide 分割（按路径覆盖关系拆分出所有区域）
+ *
+ * @param operands 参与运算的路径，指令需为同一坐标系下的绝对坐标，且不包含椭圆弧指令
+ *
+ * @returns 结果子路径列表，所有子路径的填充区域均在其前进方向的同一侧，nonzero 与 evenodd 填充规则下效果一致
+ *
+ * @note 曲线会先离散为线段参与运算，运算后未被裁切的曲线部分会还原为原曲线
+ */
+const booleanPath = (
+  operation: BooleanOperation,
+  operands: { segments: Instruction[][]; fillRule?: string }[],
+) => {
+  const operandEdges = operands.map(({ segments }, index) => flatten(segments, index));
+  const edges = splitEdges(operandEdges.flat(1));
+
+  // 判断点在各个路径内的情况
+  const locate = (point: Crood) =>
+    operandEdges.map((items, index) =>
+      isInside(items, point, operands[index].fillRule ?? 'nonzero'),
+    );
+
+  // 计算每条线段两侧的位置情况
+  const sides = edges.map((edge) => {
+    const dx = edge.to.x - edge.from.x;
+    const dy = edge.to.y - edge.from.y;
+    const length = Math.hypot(dx, dy);
+    const offset = Math.min(length / 10, 1e-3);
+    const middle = { x: (edge.from.x + edge.to.x) / 2, y: (edge.from.y + edge.to.y) / 2 };
+    const normal = { x: (-dy / length) * offset, y: (dx / length) * offset };
+    return {
+      left: locate({ x: middle.x + normal.x, y: middle.y + normal.y }),
+      right: locate({ x: middle.x - normal.x, y: middle.y - normal.y }),
+    };
+  });
+
+  const extract = (isFilled: (insides: boolean[]) => boolean) => {
+    const keepEdges: Edge[] = [];
+    edges.forEach((edge, index) => {
+      const left = isFilled(sides[index].left);
+      const right = isFilled(sides[index].right);
+      if (left === right) return;
+
+      // 统一将填充区域放在线段左侧
+      keepEdges.push(
+        left ? edge : { ...edge, from: edge.to, to: edge.from, t0: edge.t1, t1: edge.t0 },
+      );
+    });
+    return buildRings(keepEdges);
+  };
+
+  switch (operation) {
+    case 'union':
+      return extract((insides) => insides.some(Boolean));
+    case 'intersection':
+      return extract((insides) => insides.every(Boolean));
+    case 'difference':
+      return extract(([first, ...rest]) => first && !rest.some(Boolean));
+    case 'exclusion':
+      return extract((insides) => insides.filter(Boolean).length % 2 === 1);
+    case 'divide': {
+      const result: Instruction[][] = [];
+      for (let mask = 1; mask < 2 ** operands.length; mask++) {
+        result.push(
+          ...extract((insides) => insides.every((inside, i) => inside === !!(mask & (1 << i)))),
+        );
+      }
+      return result;
+    }
+    default:
+      return [];
+  }
+};
+
+export default booleanPath;
@@ -0,0 +1,34 @@
+import type { Instruction, PathNode } from '../instruction';
+
+/**
+ * 根据新的子路径指令列表构建路径节点列表
+ *
+ * @param oldSegment 原路径节点列表
+ * @param segments 新的子路径指令列表，与原路径节点指令对象相同的视为同一节点
+ *
+ * @note 仅首个子路径复用原路径节点对象，其他子路径只沿用节点标识及类型
+ */
+const buildSegmentNodes = <T extends Crood>(oldSegment: PathNode<T>[], segments: Instruction[][]) =>
+  segments.map((segment, index) => {
+    const _segment: PathNode<T>[] = [];
+
+    segment.forEach((instruction) => {
+      const oldPathNode = oldSegment.find((i) => i.instruction === instruction);
+
+      if (index === 0 && oldPathNode) {
+        oldPathNode.segment = _segment;
+        _segment.push(oldPathNode);
+      } else {
+        _segment.push({
+          id: oldPathNode?.id,
+          nodeType: oldPathNode?.nodeType,
+          segment: _segment,
+          instruction,
+        });
+      }
+    });
+
+    return _segment;
+  });
+
+export default buildSegmentNodes;
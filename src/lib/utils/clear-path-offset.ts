@@ -1,4 +1,5 @@
 import { fabric } from 'fabric';
+import { InstructionType } from '../instruction';
 import transform from './transform';
 
 /**
@@ -8,8 +9,9 @@ import transform from './transform';
 const clearPathOffset = (path: fabric.Path) => {
   const segment = path.path as unknown as [string, ...number[]];
   segment.forEach((item, pathIdx) => {
-    const [, ...croods] = item as unknown as [type: string, ...croods: number[]];
-    for (let i = 0; i < croods.length; i += 2) {
+    const [type, ...croods] = item as unknown as [type: string, ...croods: number[]];
+    // 椭圆弧指令只有终点是坐标，其余为半径、角度等参数
+    for (let i = type === InstructionType.ARC ? croods.length - 2 : 0; i < croods.length; i += 2) {
       const { x, y } = transform(
         {
           x: segment[pathIdx][i + 1] as number,
@@ -0,0 +1,40 @@
+import { fabric } from 'fabric';
+import { InstructionType, type Instruction } from '../instruction';
+
+/**
+ * 将路径中的椭圆弧指令转换为三阶贝塞尔曲线，其他指令保持不变
+ *
+ * @param path 绝对坐标的路径指令列表
+ */
+const convertArcToCubic = (path: Instruction[]) => {
+  const _path: Instruction[] = [];
+
+  let current: Crood = { x: 0, y: 0 };
+  let start: Crood = { x: 0, y: 0 };
+  path.forEach((instruction) => {
+    if (instruction[0] === InstructionType.ARC) {
+      // 借助fabric的路径简化逻辑完成转换，一段弧会拆成若干段曲线
+      const curves = (fabric.util as any).makePathSimpler([
+        [InstructionType.START, current.x, current.y],
+        instruction,
+      ]) as Instruction[];
+      _path.push(...curves.slice(1));
+    } else {
+      _path.push(instruction);
+    }
+
+    if (instruction[0] === InstructionType.CLOSE) {
+      current = start;
+    } else {
+      current = {
+        x: instruction[instruction.length - 2] as number,
+        y: instruction[instruction.length - 1] as number,
+      };
+      if (instruction[0] === InstructionType.START) start = current;
+    }
+  });
+
+  return _path;
+};
+
+export default convertArcToCubic;
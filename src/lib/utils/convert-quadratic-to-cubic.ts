@@ -1,4 +1,4 @@
-import { InstructionType, type Instruction } from '..';
+import { InstructionType, type Instruction } from '../instruction';
 
 /**
  * 将二阶曲线转换为三阶贝塞尔曲线
@@ -0,0 +1,37 @@
+import { fabric } from 'fabric';
+import { InstructionType, type Instruction } from '../instruction';
+import convertArcToCubic from './convert-arc-to-cubic';
+
+const renderPathCommands = (fabric.Path.prototype as any)._renderPathCommands;
+
+/**
+ * 使路径对象支持渲染椭圆弧指令
+ *
+ * @note
+ *
+ * fabric.Path在初始化时会把椭圆弧指令转为三阶贝塞尔曲线，渲染时也就不再处理椭圆弧指令，
+ * 为了在编辑时保留原生的椭圆弧指令，渲染时临时将其转换为曲线后再绘制。
+ */
+const enableArcRender = (path: fabric.Path) => {
+  if (Object.prototype.hasOwnProperty.call(path, '_renderPathCommands')) return;
+
+  Object.defineProperty(path, '_renderPathCommands', {
+    configurable: true,
+    writable: true,
+    value(this: fabric.Path, ctx: CanvasRenderingContext2D) {
+      const instructions = this.path as unknown as Instruction[];
+      if (!instructions.some((i) => i[0] === InstructionType.ARC)) {
+        return renderPathCommands.call(this, ctx);
+      }
+
+      this.path = convertArcToCubic(instructions) as unknown as fabric.Point[];
+      try {
+        return renderPathCommands.call(this, ctx);
+      } finally {
+        this.path = instructions as unknown as fabric.Point[];
+      }
+    },
+  });
+};
+
+export default enableArcRender;
@@ -1,4 +1,5 @@
 import { fabric } from 'fabric';
+import makePathAbsolute from './make-path-absolute';
 
 /**
  * 加载svg文件并将内部基础形状转化为纯路径
@@ -22,6 +23,13 @@ const loadSVGToPathFromURL = async (url: string) => {
       return group;
     }
 
+    /** 创建保留椭圆弧指令的路径，fabric默认会将椭圆弧转为曲线 */
+    const createArcPath = (d: any[]) => {
+      const path = new fabric.Path(d as any);
+      path.path = makePathAbsolute(d) as unknown as fabric.Point[];
+      return path;
+    };
+
     /** 转化矩形形状 */
     const convertRectPath = (params: {
       w: number;
@@ -56,7 +64,7 @@ const loadSVGToPathFromURL = async (url: string) => {
               ['Z'],
             ]
           : [['M', x, y], ['h', w], ['v', h], ['h', -w], ['v', -h], ['Z']];
-      return new fabric.Path(d as any);
+      return createArcPath(d);
     };
 
     /** 转化类椭圆形形状 */
@@ -77,7 +85,7 @@ const loadSVGToPathFromURL = async (url: string) => {
         ['A', rx, ry, 0, 0, 0, x - rx, y],
         ['Z'],
       ];
-      return new fabric.Path(d as any);
+      return createArcPath(d);
     };
 
     /** 转化类多边形形状 */
@@ -207,6 +215,11 @@ const loadSVGToPathFromURL = async (url: string) => {
           x: Number(element.getAttribute('x')),
           y: Number(element.getAttribute('y')),
         });
+      } else if (object.type === 'path') {
+        // 保留路径中原生的椭圆弧指令
+        object.path = makePathAbsolute(
+          (fabric.util as any).parsePath(element.getAttribute('d') ?? ''),
+        );
       }
     };
     const svgPromise = new Promise<fabric.Group | fabric.Object>((resolve) => {
@@ -0,0 +1,279 @@
+import { InstructionType, type Instruction } from '../instruction';
+import getInstructionCurves from './get-instruction-curves';
+
+/** 曲线片段，t0、t1 为片段在来源指令上的参数范围 */
+type Piece = {
+  points: Crood[];
+  index: number;
+  t0: number;
+  t1: number;
+};
+
+export type IntersectionInfo = {
+  /** 相交点 */
+  point: Crood;
+  /** 两条相交曲线各自所在的指令索引及指令上的参数 */
+  a: { index: number; t: number };
+  b: { index: number; t: number };
+};
+
+/** 曲线细分至足够平直时的距离误差 */
+const FLATNESS = 1e-4;
+
+/** 参数误差，用于判断端点及合并重复的交点 */
+const EPSILON = 1e-6;
+
+const cross = (a: Crood, b: Crood) => a.x * b.y - a.y * b.x;
+
+/**
+ * 使用 de Casteljau 算法在参数 t 处拆分曲线
+ */
+const splitPoints = (points: Crood[], t: number) => {
+  const left: Crood[] = [points[0]];
+  const right: Crood[] = [points[points.length - 1]];
+  let current = points;
+  while (current.length > 1) {
+    const next: Crood[] = [];
+    for (let i = 0; i < current.length - 1; i++) {
+      next.push({
+        x: current[i].x + (current[i + 1].x - current[i].x) * t,
+        y: current[i].y + (current[i + 1].y - current[i].y) * t,
+      });
+    }
+    left.push(next[0]);
+    right.unshift(next[next.length - 1]);
+    current = next;
+  }
+  return [left, right];
+};
+
+const splitPiece = (piece: Piece, t: number): [Piece, Piece] => {
+  const [left, right] = splitPoints(piece.points, t);
+  const middle = piece.t0 + (piece.t1 - piece.t0) * t;
+  return [
+    { ...piece, points: left, t1: middle },
+    { ...piece, points: right, t0: middle },
+  ];
+};
+
+const getBox = (points: Crood[]) => ({
+  minX: Math.min(...points.map((i) => i.x)),
+  maxX: Math.max(...points.map((i) => i.x)),
+  minY: Math.min(...points.map((i) => i.y)),
+  maxY: Math.max(...points.map((i) => i.y)),
+});
+
+/** 控制点到首尾连线的最大距离 */
+const getFlatness = (points: Crood[]) => {
+  const first = points[0];
+  const last = points[points.length - 1];
+  const chord = { x: last.x - first.x, y: last.y - first.y };
+  const length = Math.hypot(chord.x, chord.y);
+  return Math.max(
+    0,
+    ...points.slice(1, -1).map((point) => {
+      const vector = { x: point.x - first.x, y: point.y - first.y };
+      return length ? Math.abs(cross(chord, vector)) / length : Math.hypot(vector.x, vector.y);
+    }),
+  );
+};
+
+/**
+ * 通过递归细分求两段曲线的交点
+ */
+const intersectPieces = (a: Piece, b: Piece, result: IntersectionInfo[], depth = 0) => {
+  const boxA = getBox(a.points);
+  const boxB = getBox(b.points);
+  if (
+    boxA.maxX < boxB.minX - FLATNESS ||
+    boxB.maxX < boxA.minX - FLATNESS ||
+    boxA.maxY < boxB.minY - FLATNESS ||
+    boxB.maxY < boxA.minY - FLATNESS
+  ) {
+    return;
+  }
+
+  const flatA = getFlatness(a.points) <= FLATNESS;
+  const flatB = getFlatness(b.points) <= FLATNESS;
+
+  // 均足够平直时按直线求交
+  if ((flatA && flatB) || depth > 50) {
+    const p = a.points[0];
+    const q = b.points[0];
+    const r = {
+      x: a.points[a.points.length - 1].x - p.x,
+      y: a.points[a.points.length - 1].y - p.y,
+    };
+    const s = {
+      x: b.points[b.points.length - 1].x - q.x,
+      y: b.points[b.points.length - 1].y - q.y,
+    };
+    const denominator = cross(r, s);
+    // 平行或重叠的线段不计算交点
+    if (Math.abs(denominator) < 1e-12) return;
+
+    const qp = { x: q.x - p.x, y: q.y - p.y };
+    const u = cross(qp, s) / denominator;
+    const v = cross(qp, r) / denominator;
+    if (u < -EPSILON || u > 1 + EPSILON || v < -EPSILON || v > 1 + EPSILON) return;
+
+    const _u = Math.min(Math.max(u, 0), 1);
+    const _v = Math.min(Math.max(v, 0), 1);
+    result.push({
+      point: { x: p.x + r.x * _u, y: p.y + r.y * _u },
+      a: { index: a.index, t: a.t0 + (a.t1 - a.t0) * _u },
+      b: { index: b.index, t: b.t0 + (b.t1 - b.t0) * _v },
+    });
+    return;
+  }
+
+  // 拆分尺寸更大的曲线后继续求交
+  const sizeA = flatA ? 0 : boxA.maxX - boxA.minX + boxA.maxY - boxA.minY;
+  const sizeB = flatB ? 0 : boxB.maxX - boxB.minX + boxB.maxY - boxB.minY;
+  if (sizeA >= sizeB) {
+    splitPiece(a, 0.5).forEach((item) => intersectPieces(item, b, result, depth + 1));
+  } else {
+    splitPiece(b, 0.5).forEach((item) => intersectPieces(a, item, result, depth + 1));
+  }
+};
+
+/**
+ * 将指令拆分为曲线片段，片段的参数范围为其在指令上的参数范围
+ */
+const toPieces = (instructions: Instruction[]) => {
+  const pieces: Piece[] = [];
+
+  let start: Crood = { x: 0, y: 0 };
+  let current: Crood = { x: 0, y: 0 };
+  instructions.forEach((instruction, index) => {
+    const [type, ...params] = instruction as [InstructionType, ...number[]];
+    if (type === InstructionType.START) {
+      start = current = { x: params[0], y: params[1] };
+      return;
+    }
+
+    if (type === InstructionType.CLOSE) {
+      if (current.x !== start.x || current.y !== start.y) {
+        pieces.push({ points: [current, start], index, t0: 0, t1: 1 });
+      }
+      current = start;
+      return;
+    }
+
+    const curves = getInstructionCurves(current, instruction);
+    curves.forEach((points, i) => {
+      // 忽略零长度的曲线
+      if (points.every((point) => point.x === points[0].x && point.y === points[0].y)) return;
+      pieces.push({ points, index, t0: i / curves.length, t1: (i + 1) / curves.length });
+    });
+    current = { x: params[params.length - 2], y: params[params.length - 1] };
+  });
+
+  return pieces;
+};
+
+/**
+ * 将曲线片段拆分到其切线方向的变化范围小于 180°，这样的片段自身不会相交
+ */
+const toSimplePieces = (piece: Piece, depth = 0): Piece[] => {
+  if (piece.points.length <= 2 || depth > 8) return [piece];
+
+  const legs: Crood[] = [];
+  for (let i = 0; i < piece.points.length - 1; i++) {
+    const leg = {
+      x: piece.points[i + 1].x - piece.points[i].x,
+      y: piece.points[i + 1].y - piece.points[i].y,
+    };
+    if (Math.hypot(leg.x, leg.y) > EPSILON) legs.push(leg);
+  }
+
+  // 控制多边形各边方向的累计转角即为曲线切线方向变化范围的上界
+  let turn = 0;
+  for (let i = 0; i < legs.length - 1; i++) {
+    turn += Math.abs(
+      Math.atan2(
+        cross(legs[i], legs[i + 1]),
+        legs[i].x * legs[i + 1].x + legs[i].y * legs[i + 1].y,
+      ),
+    );
+  }
+  if (turn < Math.PI) return [piece];
+
+  return splitPiece(piece, 0.5).flatMap((item) => toSimplePieces(item, depth + 1));
+};
+
+/**
+ * 合并参数几乎相同的重复交点（交点落在细分边界时会被两侧片段同时检测到）
+ */
+const unique = (intersections: IntersectionInfo[]) => {
+  const result: IntersectionInfo[] = [];
+  intersections.forEach((item) => {
+    const isDuplicate = result.some(
+      (i) =>
+        i.a.index === item.a.index &&
+        i.b.index === item.b.index &&
+        Math.abs(i.a.t - item.a.t) < EPSILON * 100 &&
+        Math.abs(i.b.t - item.b.t) < EPSILON * 100,
+    );
+    if (!isDuplicate) result.push(item);
+  });
+  return result;
+};
+
+/**
+ * 查找两条路径之间的交点，不传入第二条路径时查找路径自身的相交点
+ *
+ * @param instructions 绝对坐标的路径指令列表
+ * @param otherInstructions 另一条路径的指令列表，需与第一条路径处于同一坐标系
+ *
+ * @returns 交点列表，a 为第一条路径上的位置，b 为另一条路径上的位置，自相交时 a 的位置总在 b 之前
+ *
+ * @note
+ *
+ * ① 相邻指令在连接点处的相接不视为相交，重叠的线段不计算交点
+ *
+ * ② 椭圆弧会转换为若干段三阶贝塞尔曲线计算，其指令参数 t 按曲线段数均分
+ */
+const findIntersections = (instructions: Instruction[], otherInstructions?: Instruction[]) => {
+  const result: IntersectionInfo[] = [];
+
+  if (otherInstructions) {
+    const pieces = toPieces(instructions);
+    const otherPieces = toPieces(otherInstructions);
+    pieces.forEach((a) => {
+      otherPieces.forEach((b) => intersectPieces(a, b, result));
+    });
+    return unique(result);
+  }
+
+  const pieces = toPieces(instructions).flatMap((piece) => toSimplePieces(piece));
+  const isClosed = instructions.some((i) => i[0] === InstructionType.CLOSE);
+
+  for (let i = 0; i < pieces.length; i++) {
+    for (let j = i + 1; j < pieces.length; j++) {
+      const intersections: IntersectionInfo[] = [];
+      intersectPieces(pieces[i], pieces[j], intersections);
+
+      const isAdjacent = j === i + 1;
+      const isLoopAdjacent = isClosed && i === 0 && j === pieces.length - 1;
+      result.push(
+        ...intersections.filter(({ a, b }) => {
+          // 相邻片段在连接点处的相接
+          const atJoint = (t: number, piece: Piece, end: 't0' | 't1') =>
+            Math.abs(t - piece[end]) < EPSILON * 100;
+          if (isAdjacent && atJoint(a.t, pieces[i], 't1') && atJoint(b.t, pieces[j], 't0')) {
+            return false;
+          }
+          if (isLoopAdjacent && atJoint(a.t, pieces[i], 't0') && atJoint(b.t, pieces[j], 't1')) {
+            return false;
+          }
+          return true;
+        }),
+      );
+    }
+  }
+
+  return unique(result);
+};
+
+export default findIntersections;
@@ -0,0 +1,213 @@
+type Curve = [Crood, Crood, Crood, Crood];
+
+const add = (a: Crood, b: Crood) => ({ x: a.x + b.x, y: a.y + b.y });
+const sub = (a: Crood, b: Crood) => ({ x: a.x - b.x, y: a.y - b.y });
+const scale = (a: Crood, s: number) => ({ x: a.x * s, y: a.y * s });
+const dot = (a: Crood, b: Crood) => a.x * b.x + a.y * b.y;
+const distance = (a: Crood, b: Crood) => Math.hypot(a.x - b.x, a.y - b.y);
+const normalize = (a: Crood) => {
+  const length = Math.hypot(a.x, a.y);
+  return length ? scale(a, 1 / length) : a;
+};
+
+/** 三阶贝塞尔曲线取点 */
+const bezierPoint = (curve: Curve, t: number) => {
+  const mt = 1 - t;
+  return {
+    x:
+      mt * mt * mt * curve[0].x +
+      3 * mt * mt * t * curve[1].x +
+      3 * mt * t * t * curve[2].x +
+      t * t * t * curve[3].x,
+    y:
+      mt * mt * mt * curve[0].y +
+      3 * mt * mt * t * curve[1].y +
+      3 * mt * t * t * curve[2].y +
+      t * t * t * curve[3].y,
+  };
+};
+
+/** 三阶贝塞尔曲线的一阶导数 */
+const bezierDerivative = (curve: Curve, t: number) => {
+  const mt = 1 - t;
+  return {
+    x:
+      3 * mt * mt * (curve[1].x - curve[0].x) +
+      6 * mt * t * (curve[2].x - curve[1].x) +
+      3 * t * t * (curve[3].x - curve[2].x),
+    y:
+      3 * mt * mt * (curve[1].y - curve[0].y) +
+      6 * mt * t * (curve[2].y - curve[1].y) +
+      3 * t * t * (curve[3].y - curve[2].y),
+  };
+};
+
+/** 三阶贝塞尔曲线的二阶导数 */
+const bezierSecondDerivative = (curve: Curve, t: number) => ({
+  x:
+    6 * (1 - t) * (curve[2].x - 2 * curve[1].x + curve[0].x) +
+    6 * t * (curve[3].x - 2 * curve[2].x + curve[1].x),
+  y:
+    6 * (1 - t) * (curve[2].y - 2 * curve[1].y + curve[0].y) +
+    6 * t * (curve[3].y - 2 * curve[2].y + curve[1].y),
+});
+
+/**
+ * 按弦长为每个点分配曲线参数
+ */
+const chordLengthParameterize = (points: Crood[]) => {
+  const lengths = [0];
+  for (let i = 1; i < points.length; i++) {
+    lengths.push(lengths[i - 1] + distance(points[i], points[i - 1]));
+  }
+  const total = lengths[lengths.length - 1] || 1;
+  return lengths.map((length) => length / total);
+};
+
+/**
+ * 使用最小二乘法在给定端点切线方向的情况下生成曲线
+ */
+const generateBezier = (
+  points: Crood[],
+  parameters: number[],
+  leftTangent: Crood,
+  rightTangent: Crood,
+): Curve => {
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  const c = [
+    [0, 0],
+    [0, 0],
+  ];
+  const x = [0, 0];
+
+  parameters.forEach((t, i) => {
+    const mt = 1 - t;
+    const a1 = scale(leftTangent, 3 * mt * mt * t);
+    const a2 = scale(rightTangent, 3 * mt * t * t);
+
+    c[0][0] += dot(a1, a1);
+    c[0][1] += dot(a1, a2);
+    c[1][0] += dot(a1, a2);
+    c[1][1] += dot(a2, a2);
+
+    const tmp = sub(points[i], bezierPoint([first, first, last, last], t));
+    x[0] += dot(a1, tmp);
+    x[1] += dot(a2, tmp);
+  });
+
+  const detC0C1 = c[0][0] * c[1][1] - c[1][0] * c[0][1];
+  const detC0X = c[0][0] * x[1] - c[1][0] * x[0];
+  const detXC1 = x[0] * c[1][1] - x[1] * c[0][1];
+
+  let alphaL = detC0C1 === 0 ? 0 : detXC1 / detC0C1;
+  let alphaR = detC0C1 === 0 ? 0 : detC0X / detC0C1;
+
+  // 结果不可靠时退化为按端点距离估算控制点
+  const segmentLength = distance(first, last);
+  const epsilon = 1e-6 * segmentLength;
+  if (alphaL < epsilon || alphaR < epsilon) {
+    alphaL = segmentLength / 3;
+    alphaR = segmentLength / 3;
+  }
+
+  return [
+    first,
+    add(first, scale(leftTangent, alphaL)),
+    add(last, scale(rightTangent, alphaR)),
+    last,
+  ];
+};
+
+/**
+ * 使用牛顿迭代优化每个点对应的曲线参数
+ */
+const reparameterize = (curve: Curve, points: Crood[], parameters: number[]) =>
+  parameters.map((t, i) => {
+    const d = sub(bezierPoint(curve, t), points[i]);
+    const d1 = bezierDerivative(curve, t);
+    const d2 = bezierSecondDerivative(curve, t);
+    const numerator = dot(d, d1);
+    const denominator = dot(d1, d1) + dot(d, d2);
+    if (denominator === 0) return t;
+    return Math.min(Math.max(t - numerator / denominator, 0), 1);
+  });
+
+/**
+ * 计算点集到曲线的最大误差及其位置
+ */
+const computeMaxError = (curve: Curve, points: Crood[], parameters: number[]) => {
+  let maxError = 0;
+  let splitIndex = Math.floor(points.length / 2);
+  points.forEach((point, i) => {
+    const error = distance(bezierPoint(curve, parameters[i]), point);
+    if (error > maxError) {
+      maxError = error;
+      splitIndex = i;
+    }
+  });
+  return { maxError, splitIndex };
+};
+
+/**
+ * 使用三阶贝塞尔曲线拟合点集
+ *
+ * @param points 有序点集
+ * @param tolerance 允许的最大误差距离
+ * @param leftTangent 起点的切线方向，不传则由点集估算
+ * @param rightTangent 终点的反向切线方向，不传则由点集估算
+ *
+ * @see Philip J. Schneider. An Algorithm for Automatically Fitting Digitized Curves. Graphics Gems, 1990.
+ */
+const fitCurve = (
+  points: Crood[],
+  tolerance: number,
+  leftTangent?: Crood,
+  rightTangent?: Crood,
+): Curve[] => {
+  if (points.length < 2) return [];
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const _leftTangent = normalize(leftTangent ?? sub(points[1], first));
+  const _rightTangent = normalize(rightTangent ?? sub(points[points.length - 2], last));
+
+  if (points.length === 2) {
+    const length = distance(first, last) / 3;
+    return [
+      [
+        first,
+        add(first, scale(_leftTangent, length)),
+        add(last, scale(_rightTangent, length)),
+        last,
+      ],
+    ];
+  }
+
+  let parameters = chordLengthParameterize(points);
+  let curve = generateBezier(points, parameters, _leftTangent, _rightTangent);
+  let { maxError, splitIndex } = computeMaxError(curve, points, parameters);
+  if (maxError <= tolerance) return [curve];
+
+  // 误差不大时尝试优化参数后重新拟合
+  if (maxError <= tolerance * 4) {
+    for (let i = 0; i < 20; i++) {
+      parameters = reparameterize(curve, points, parameters);
+      curve = generateBezier(points, parameters, _leftTangent, _rightTangent);
+      ({ maxError, splitIndex } = computeMaxError(curve, points, parameters));
+      if (maxError <= tolerance) return [curve];
+    }
+  }
+
+  // 在误差最大处拆分后分别拟合，拆分点两侧共用切线以保持平滑
+  splitIndex = Math.min(Math.max(splitIndex, 1), points.length - 2);
+  const centerTangent = normalize(sub(points[splitIndex - 1], points[splitIndex + 1]));
+
+  return [
+    ...fitCurve(points.slice(0, splitIndex + 1), tolerance, _leftTangent, centerTangent),
+    ...fitCurve(points.slice(splitIndex), tolerance, scale(centerTangent, -1), _rightTangent),
+  ];
+};
+
+export default fitCurve;
@@ -0,0 +1,179 @@
+import round from 'lodash-es/round';
+import defaults from 'lodash-es/defaults';
+import { InstructionType, type Instruction } from '../instruction';
+
+export type FormatPathDataOptions = {
+  /** 数值精度 */
+  precision: number;
+  /** 是否使用相对坐标指令 */
+  relative: boolean;
+  /** 是否在几何形状允许时使用 H、V、S、T 简写指令 */
+  shorthand: boolean;
+  /** 是否移除多余的分隔符、前导零及重复的指令字母 */
+  minify: boolean;
+};
+
+export const DEFAULT_FORMAT_PATH_DATA_OPTIONS: FormatPathDataOptions = {
+  precision: 3,
+  relative: false,
+  shorthand: false,
+  minify: false,
+};
+
+/**
+ * 将路径指令序列化为路径字符串
+ *
+ * @param segments 绝对坐标的子路径指令列表
+ * @param options 序列化配置
+ *
+ * @note
+ *
+ * 所有坐标会先按精度取整再判断简写条件，保证简写前后的几何形状一致；
+ * 闭合指令之后的当前点会回到子路径起点，后续的相对指令以此为基准计算。
+ */
+const formatPathData = (
+  segments: Instruction[][],
+  options: Partial<FormatPathDataOptions> = {},
+) => {
+  const { precision, relative, shorthand, minify } = defaults(
+    { ...options },
+    DEFAULT_FORMAT_PATH_DATA_OPTIONS,
+  );
+
+  // 避免出现 -0
+  const toNumber = (value: number) => round(value, precision) || 0;
+
+  const isSameCrood = (a: Crood, b: Crood) => a.x === b.x && a.y === b.y;
+
+  const commands: [type: string, ...params: number[]][] = [];
+
+  // 当前点、子路径起点以及上一条曲线的最后一个控制点
+  let current: Crood = { x: 0, y: 0 };
+  let start: Crood = { x: 0, y: 0 };
+  let control: Crood | null = null;
+  let preType = '';
+
+  segments.forEach((segment) => {
+    segment.forEach((item, index) => {
+      const [type, ...croods] = item;
+      const params = croods.map(toNumber);
+
+      // 闭合指令前回到起点的直线可以由闭合指令代替
+      if (
+        minify &&
+        type === InstructionType.LINE &&
+        segment[index + 1]?.[0] === InstructionType.CLOSE &&
+        isSameCrood({ x: params[0], y: params[1] }, start)
+      ) {
+        current = start;
+        preType = type;
+        return;
+      }
+
+      let command: string = type;
+      let values: number[] = params;
+      let nextControl: Crood | null = null;
+
+      switch (type) {
+        case InstructionType.START:
+          start = { x: params[0], y: params[1] };
+          break;
+        case InstructionType.LINE:
+          if (shorthand && params[1] === current.y) {
+            command = 'H';
+            values = [params[0]];
+          } else if (shorthand && params[0] === current.x) {
+            command = 'V';
+            values = [params[1]];
+          }
+          break;
+        case InstructionType.QUADRATIC_CURCE: {
+          const point = { x: params[0], y: params[1] };
+          // 控制点为上一个控制点关于当前点的镜像，没有上一个控制点时则与当前点重合
+          const reflection =
+            control && ['Q', 'T'].includes(preType)
+              ? { x: toNumber(2 * current.x - control.x), y: toNumber(2 * current.y - control.y) }
+              : current;
+          if (shorthand && isSameCrood(point, reflection)) {
+            command = 'T';
+            values = params.slice(2);
+          }
+          nextControl = point;
+          break;
+        }
+        case InstructionType.BEZIER_CURVE: {
+          const point = { x: params[0], y: params[1] };
+          const reflection =
+            control && ['C', 'S'].includes(preType)
+              ? { x: toNumber(2 * current.x - control.x), y: toNumber(2 * current.y - control.y) }
+              : current;
+          if (shorthand && isSameCrood(point, reflection)) {
+            command = 'S';
+            values = params.slice(2);
+          }
+          nextControl = { x: params[2], y: params[3] };
+          break;
+        }
+        default:
+          break;
+      }
+
+      // 转换为相对坐标，椭圆弧只有终点是坐标，H、V 只有单个方向的坐标
+      if (relative && type !== InstructionType.CLOSE) {
+        command = command.toLowerCase();
+        if (command === 'h') values = [toNumber(values[0] - current.x)];
+        else if (command === 'v') values = [toNumber(values[0] - current.y)];
+        else {
+          values = values.map((value, i) => {
+            if (command === 'a' && i < 5) return value;
+            const isX = (values.length - i) % 2 === 0;
+            return toNumber(value - (isX ? current.x : current.y));
+          });
+        }
+      }
+
+      commands.push([command, ...values]);
+
+      if (type === InstructionType.CLOSE) {
+        current = start;
+      } else {
+        current = { x: params[params.length - 2], y: params[params.length - 1] };
+      }
+      control = nextControl;
+      preType = command.toUpperCase();
+    });
+  });
+
+  if (!minify) return commands.map((command) => command.join(' ')).join(' ');
+
+  // 压缩数值：移除前导零，负号与小数点可以直接作为分隔符
+  const formatNumber = (value: number) => String(value).replace(/^(-?)0\./, '$1.');
+
+  let d = '';
+  let lastCommand = '';
+  commands.forEach(([command, ...values]) => {
+    // 重复的指令可以省略字母（起始指令后的重复坐标会被视为直线指令，不可省略）
+    if (command !== lastCommand || command.toUpperCase() === 'M' || !values.length) {
+      d += command;
+    } else {
+      const first = formatNumber(values[0]);
+      if (!/^[-.]/.test(first) || (first[0] === '.' && !/\.\d*$/.test(d))) d += ' ';
+    }
+
+    values.forEach((value, i) => {
+      const text = formatNumber(value);
+      if (i > 0) {
+        const preText = formatNumber(values[i - 1]);
+        const needSeparator = !(text[0] === '-') && !(text[0] === '.' && preText.includes('.'));
+        if (needSeparator) d += ' ';
+      }
+      d += text;
+    });
+
+    lastCommand = command;
+  });
+
+  return d;
+};
+
+export default formatPathData;
@@ -0,0 +1,57 @@
+import type { Instruction } from '../instruction';
+
+/**
+ * 计算椭圆弧指令的圆心及实际半径（端点参数化转中心参数化）
+ *
+ * @param from 椭圆弧的起始点
+ * @param instruction 椭圆弧指令 [A, rx, ry, rotation, largeArc, sweep, x, y]
+ *
+ * @note 半径不足以连接两个端点时会按比例放大，与浏览器的渲染结果保持一致
+ * @see https://www.w3.org/TR/SVG/implnote.html#ArcConversionEndpointToCenter
+ */
+const getArcCenter = (from: Crood, instruction: Instruction) => {
+  const [, _rx, _ry, rotation, largeArc, sweep, x, y] = instruction;
+
+  let rx = Math.abs(_rx);
+  let ry = Math.abs(_ry);
+
+  const radian = (rotation * Math.PI) / 180;
+  const cos = Math.cos(radian);
+  const sin = Math.sin(radian);
+
+  // 以两端点中点为原点并旋转到椭圆的坐标系
+  const dx = (from.x - x) / 2;
+  const dy = (from.y - y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+
+  // 修正过小的半径
+  const lambda = rx && ry ? (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry) : 0;
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  let cx1 = 0;
+  let cy1 = 0;
+  if (rx && ry) {
+    const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+    const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+    const factor =
+      (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / (denominator || 1)));
+    cx1 = (factor * rx * y1) / ry;
+    cy1 = (-factor * ry * x1) / rx;
+  }
+
+  return {
+    center: {
+      x: cos * cx1 - sin * cy1 + (from.x + x) / 2,
+      y: sin * cx1 + cos * cy1 + (from.y + y) / 2,
+    },
+    rx,
+    ry,
+    rotation,
+  };
+};
+
+export default getArcCenter;
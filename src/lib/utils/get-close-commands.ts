@@ -0,0 +1,37 @@
+import { InstructionType, type Instruction } from '../instruction';
+import type { SegmentUpdateCommand } from './update-segment-nodes';
+
+/**
+ * 获取闭合子路径的更新命令
+ *
+ * @param instructions 子路径指令列表
+ *
+ * @returns 更新命令，已闭合或少于2个节点的子路径无需处理，返回空数组
+ */
+const getCloseCommands = (instructions: Instruction[]) => {
+  const commands: SegmentUpdateCommand[] = [];
+
+  const isClosePath = instructions[instructions.length - 1]?.[0] === InstructionType.CLOSE;
+  if (isClosePath || instructions.length < 2) return commands;
+
+  const [startX, startY] = instructions[0].slice(-2) as number[];
+  const [endX, endY] = instructions[instructions.length - 1].slice(-2) as number[];
+
+  // 需要考虑添加闭合重叠点
+  if (startX !== endX || startY !== endY) {
+    commands.push({
+      type: 'add',
+      index: instructions.length,
+      instruction: [InstructionType.LINE, startX, startY],
+    });
+  }
+  commands.push({
+    type: 'add',
+    index: instructions.length + commands.length,
+    instruction: [InstructionType.CLOSE],
+  });
+
+  return commands;
+};
+
+export default getCloseCommands;
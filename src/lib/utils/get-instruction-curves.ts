@@ -0,0 +1,45 @@
+import { InstructionType, type Instruction } from '../instruction';
+import convertArcToCubic from './convert-arc-to-cubic';
+
+/**
+ * 获取指令对应的曲线控制点列表，直线为2个点，二阶曲线为3个点，三阶曲线为4个点
+ *
+ * @param from 指令的起始点，即上一个指令的终点
+ * @param instruction 指令
+ *
+ * @note 椭圆弧会转换为若干段三阶贝塞尔曲线，起始和闭合指令没有对应的曲线
+ */
+const getInstructionCurves = (from: Crood, instruction: Instruction) => {
+  const [type, ...params] = instruction;
+
+  const toCroods = (values: number[]) => {
+    const croods: Crood[] = [];
+    for (let i = 0; i < values.length - 1; i += 2) {
+      croods.push({ x: values[i], y: values[i + 1] });
+    }
+    return croods;
+  };
+
+  switch (type) {
+    case InstructionType.LINE:
+    case InstructionType.QUADRATIC_CURCE:
+    case InstructionType.BEZIER_CURVE:
+      return [[from, ...toCroods(params as number[])]];
+    case InstructionType.ARC: {
+      const curves: Crood[][] = [];
+      let current = from;
+      convertArcToCubic([[InstructionType.START, from.x, from.y], instruction])
+        .slice(1)
+        .forEach((item) => {
+          const croods = toCroods(item.slice(1) as number[]);
+          curves.push([current, ...croods]);
+          current = croods[croods.length - 1];
+        });
+      return curves;
+    }
+    default:
+      return [];
+  }
+};
+
+export default getInstructionCurves;
@@ -0,0 +1,23 @@
+import { InstructionType, type Instruction } from '../instruction';
+
+/**
+ * 获取路径中的路径分段
+ * @param instructions 路径指令列表
+ * @returns 路径分段
+ */
+const getPathSegments = (instructions: Instruction[]) => {
+  const segments = instructions.reduce(
+    (paths, instruction, idx, arr) => {
+      if (!instruction) return paths;
+      if (instruction[0] === InstructionType.START && paths[paths.length - 1].length)
+        paths.push([]);
+      paths[paths.length - 1].push(instruction);
+      if (instruction[0] === InstructionType.CLOSE && idx !== arr.length - 1) paths.push([]);
+      return paths;
+    },
+    [[]] as Instruction[][],
+  );
+  return segments;
+};
+
+export default getPathSegments;
@@ -0,0 +1,39 @@
+import { InstructionType, type Instruction } from '../instruction';
+import type { SegmentUpdateCommand } from './update-segment-nodes';
+
+/**
+ * 获取替换子路径指令的更新命令
+ *
+ * @param instructions 子路径指令列表
+ * @param index 被替换的指令索引
+ * @param instruction 新指令
+ *
+ * @returns 实际替换的指令索引及更新命令，闭合重叠点会被视为起始点，与起始点同步更新
+ */
+const getReplaceCommands = (
+  instructions: Instruction[],
+  index: number,
+  instruction: Instruction,
+) => {
+  const isClosePath = instructions[instructions.length - 1]?.[0] === InstructionType.CLOSE;
+  if (isClosePath && index === instructions.length - 2) index = 0;
+
+  const commands: SegmentUpdateCommand[] = [];
+
+  if (index === 0) {
+    commands.push({
+      type: 'update',
+      index: 0,
+      instruction: [InstructionType.START, ...instruction.slice(-2)] as Instruction,
+    });
+    if (isClosePath) {
+      commands.push({ type: 'update', index: instructions.length - 2, instruction });
+    }
+  } else {
+    commands.push({ type: 'update', index, instruction });
+  }
+
+  return { index, commands };
+};
+
+export default getReplaceCommands;
@@ -16,12 +16,30 @@ export { default as calcCanvasCrood } from './calc-canvas-crood';
  */
 export { default as loadSVGToPathFromURL } from './fabric-shape-to-path';
 export { default as parsePathJSON } from './parse-path-json';
+export { default as objectToPath } from './object-to-path';
+export { default as parsePathString } from './parse-path-string';
+export { default as getPathSegments } from './get-path-segments';
+export { default as normalizeSegment } from './normalize-segment';
+export { default as removeSegmentNodes } from './remove-segment-nodes';
+export { default as buildSegmentNodes } from './build-segment-nodes';
+export { default as updateSegmentNodes } from './update-segment-nodes';
+export { default as getReplaceCommands } from './get-replace-commands';
+export { default as getCloseCommands } from './get-close-commands';
+export { default as linkSegments } from './link-segments';
+export { default as reverseSegmentNodes } from './reverse-segment-nodes';
 export { default as clearPathOffset } from './clear-path-offset';
 export { default as repairPath } from './repair-path';
 export { default as reinitializePath } from './reinitialize-path';
 export { default as reversePath } from './reverse-path';
 export { default as getCubicFromQuadratic } from './get-cubic-from-quadratic';
 export { default as convertQuadraticToCubic } from './convert-quadratic-to-cubic';
+export { default as makePathAbsolute } from './make-path-absolute';
+export { default as convertArcToCubic } from './convert-arc-to-cubic';
+export { default as enableArcRender } from './enable-arc-render';
+export { default as formatPathData } from './format-path-data';
+export { default as booleanPath } from './boolean-path';
+export { default as outlineStroke } from './outline-stroke';
+export { default as offsetPath } from './offset-path';
 
 /**
  * 曲线处理
@@ -29,3 +47,10 @@ export { default as convertQuadraticToCubic } from './convert-quadratic-to-cubic
 export { default as curveFromLine } from './curve-from-line';
 export { default as curveFromPoint } from './curve-from-point';
 export { default as splitInstruction } from './split-instruction';
+export { default as getArcCenter } from './get-arc-center';
+export { default as getInstructionCurves } from './get-instruction-curves';
+export { default as fitCurve } from './fit-curve';
+export { default as measurePath } from './measure-path';
+export { default as findIntersections } from './find-intersections';
+export { default as transformArc } from './transform-arc';
+export { default as inferNodeType } from './infer-node-type';
@@ -0,0 +1,34 @@
+import { PathNodeType } from '../instruction';
+import calcCroodsAngle from './calc-croods-angle';
+import calcCroodsDistance from './calc-croods-distance';
+
+/**
+ * 根据节点两侧曲线变换点的位置推断节点类型
+ *
+ * @param node 路径节点
+ * @param pre 前曲线变换点
+ * @param next 后曲线变换点
+ * @param deviation 误差范围，角度以度为单位，长度为两侧长度差占较长一侧的比例
+ *
+ * @note 缺少任意一侧曲线变换点或变换点与节点重合时均视为尖角节点
+ */
+const inferNodeType = (
+  node: Crood,
+  pre?: Crood,
+  next?: Crood,
+  deviation = { angle: 0.5, length: 0.01 },
+): `${PathNodeType}` => {
+  if (!pre || !next) return PathNodeType.CORNER;
+
+  const preLength = calcCroodsDistance(pre, node);
+  const nextLength = calcCroodsDistance(next, node);
+  if (!preLength || !nextLength) return PathNodeType.CORNER;
+
+  if (180 - calcCroodsAngle(pre, node, next) > deviation.angle) return PathNodeType.CORNER;
+
+  return Math.abs(preLength - nextLength) <= Math.max(preLength, nextLength) * deviation.length
+    ? PathNodeType.SYMMETRIC
+    : PathNodeType.SMOOTH;
+};
+
+export default inferNodeType;
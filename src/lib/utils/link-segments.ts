@@ -0,0 +1,46 @@
+import { InstructionType, type Instruction, type PathNode } from '../instruction';
+import reversePath from './reverse-path';
+
+/**
+ * 连接两个不同子路径的端点，调整两者方向使源端点位于末尾、目标端点位于开头
+ *
+ * @param source 源子路径端点
+ * @param target 目标子路径端点
+ *
+ * @returns 调整方向后的源、目标指令列表，两者直接拼接即为合并后的子路径，
+ * 节点标识及类型跟随路径方向，按合并后的顺序排列，joinIndex 为目标端点在合并后的索引
+ */
+const linkSegments = <T extends Crood>(source: PathNode<T>, target: PathNode<T>) => {
+  let sourceInstructions = source.segment.map((i) => i.instruction);
+  let targetInstructions = target.segment.map((i) => i.instruction);
+
+  const sourceIds = source.segment.map((i) => i.id);
+  const targetIds = target.segment.map((i) => i.id);
+  const sourceTypes = source.segment.map((i) => i.nodeType);
+  const targetTypes = target.segment.map((i) => i.nodeType);
+
+  if (source.instruction === sourceInstructions[0]) {
+    sourceInstructions = reversePath(sourceInstructions);
+    sourceIds.reverse();
+    sourceTypes.reverse();
+  }
+  if (target.instruction === targetInstructions[targetInstructions.length - 1]) {
+    targetInstructions = reversePath(targetInstructions);
+    targetIds.reverse();
+    targetTypes.reverse();
+  }
+  targetInstructions.splice(0, 1, [
+    InstructionType.LINE,
+    ...targetInstructions[0].slice(-2),
+  ] as Instruction);
+
+  return {
+    source: sourceInstructions,
+    target: targetInstructions,
+    ids: sourceIds.concat(targetIds),
+    nodeTypes: sourceTypes.concat(targetTypes),
+    joinIndex: sourceInstructions.length,
+  };
+};
+
+export default linkSegments;
@@ -0,0 +1,115 @@
+import { InstructionType, type Instruction } from '../instruction';
+
+/**
+ * 将路径指令统一转为绝对坐标的 M、L、Q、C、A、Z 指令
+ *
+ * @param path 路径指令列表，如 fabric.util.parsePath 的解析结果
+ *
+ * @note 与 fabric.util.makePathSimpler 不同，椭圆弧指令（A）不会被转化为三阶贝塞尔曲线
+ */
+const makePathAbsolute = (path: [string, ...number[]][]) => {
+  const _path: Instruction[] = [];
+
+  // 当前点及子路径起始点
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+
+  // 上一条曲线的控制点，用于推导 S、T 的镜像控制点
+  let controlX = 0;
+  let controlY = 0;
+  let preType = '';
+
+  path.forEach((item) => {
+    const [type, ...params] = item;
+    const isRelative = type !== type.toUpperCase();
+    const offsetX = isRelative ? x : 0;
+    const offsetY = isRelative ? y : 0;
+
+    let instruction: Instruction | undefined;
+    switch (type.toUpperCase()) {
+      case 'M':
+        x = params[0] + offsetX;
+        y = params[1] + offsetY;
+        startX = x;
+        startY = y;
+        instruction = [InstructionType.START, x, y];
+        break;
+      case 'L':
+        x = params[0] + offsetX;
+        y = params[1] + offsetY;
+        instruction = [InstructionType.LINE, x, y];
+        break;
+      case 'H':
+        x = params[0] + offsetX;
+        instruction = [InstructionType.LINE, x, y];
+        break;
+      case 'V':
+        y = params[0] + offsetY;
+        instruction = [InstructionType.LINE, x, y];
+        break;
+      case 'C':
+        controlX = params[2] + offsetX;
+        controlY = params[3] + offsetY;
+        x = params[4] + offsetX;
+        y = params[5] + offsetY;
+        instruction = [
+          InstructionType.BEZIER_CURVE,
+          params[0] + offsetX,
+          params[1] + offsetY,
+          controlX,
+          controlY,
+          x,
+          y,
+        ];
+        break;
+      case 'S': {
+        // 上一条指令为三阶曲线时，第一个控制点为上一个控制点的镜像，否则与当前点重合
+        const mirrorX = ['C', 'S'].includes(preType) ? 2 * x - controlX : x;
+        const mirrorY = ['C', 'S'].includes(preType) ? 2 * y - controlY : y;
+        controlX = params[0] + offsetX;
+        controlY = params[1] + offsetY;
+        x = params[2] + offsetX;
+        y = params[3] + offsetY;
+        instruction = [InstructionType.BEZIER_CURVE, mirrorX, mirrorY, controlX, controlY, x, y];
+        break;
+      }
+      case 'Q':
+        controlX = params[0] + offsetX;
+        controlY = params[1] + offsetY;
+        x = params[2] + offsetX;
+        y = params[3] + offsetY;
+        instruction = [InstructionType.QUADRATIC_CURCE, controlX, controlY, x, y];
+        break;
+      case 'T':
+        // 上一条指令为二阶曲线时，控制点为上一个控制点的镜像，否则与当前点重合
+        controlX = ['Q', 'T'].includes(preType) ? 2 * x - controlX : x;
+        controlY = ['Q', 'T'].includes(preType) ? 2 * y - controlY : y;
+        x = params[0] + offsetX;
+        y = params[1] + offsetY;
+        instruction = [InstructionType.QUADRATIC_CURCE, controlX, controlY, x, y];
+        break;
+      case 'A':
+        x = params[5] + offsetX;
+        y = params[6] + offsetY;
+        instruction = [InstructionType.ARC, ...(params.slice(0, 5) as number[]), x, y];
+        break;
+      case 'Z':
+        x = startX;
+        y = startY;
+        instruction = [InstructionType.CLOSE];
+        break;
+      default:
+        break;
+    }
+
+    if (instruction) _path.push(instruction);
+
+    preType = type.toUpperCase();
+  });
+
+  return _path;
+};
+
+export default makePathAbsolute;
@@ -0,0 +1,182 @@
+import { Bezier } from 'bezier-js';
+import { InstructionType, type Instruction } from '../instruction';
+import getInstructionCurves from './get-instruction-curves';
+
+/** 单段曲线（直线、二阶或三阶贝塞尔曲线）的测量信息 */
+type CurveMeasure = {
+  length: number;
+  get: (t: number) => Crood;
+  derivative: (t: number) => Crood;
+  /** 获取从起点出发指定长度处的曲线参数 */
+  getT: (length: number) => number;
+};
+
+const measureCurve = (curve: Crood[]): CurveMeasure => {
+  if (curve.length === 2) {
+    const [from, to] = curve;
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+    return {
+      length,
+      get: (t) => ({ x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t }),
+      derivative: () => ({ x: to.x - from.x, y: to.y - from.y }),
+      getT: (d) => (length ? d / length : 0),
+    };
+  }
+
+  const bezier = new Bezier(curve);
+  const length = bezier.length();
+  return {
+    length,
+    get: (t) => {
+      const { x, y } = bezier.get(t);
+      return { x, y };
+    },
+    derivative: (t) => {
+      const { x, y } = bezier.derivative(t);
+      return { x, y };
+    },
+    getT: (d) => {
+      if (d <= 0) return 0;
+      if (d >= length) return 1;
+      // 曲线长度没有解析的反函数，使用二分查找逼近
+      let min = 0;
+      let max = 1;
+      for (let i = 0; i < 30; i++) {
+        const t = (min + max) / 2;
+        if (bezier.split(0, t).length() < d) min = t;
+        else max = t;
+      }
+      return (min + max) / 2;
+    },
+  };
+};
+
+/**
+ * 获取曲线上指定参数处的单位切线方向，导数为零（控制点与端点重合）时取邻近位置的方向
+ */
+const getCurveTangent = (measure: CurveMeasure, t: number) => {
+  const candidates = [t, t + 1e-3, t - 1e-3].filter((i) => i >= 0 && i <= 1);
+  for (const i of candidates) {
+    const { x, y } = measure.derivative(i);
+    const length = Math.hypot(x, y);
+    if (length > 1e-12) return { x: x / length, y: y / length };
+  }
+  const start = measure.get(0);
+  const end = measure.get(1);
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  return length ? { x: (end.x - start.x) / length, y: (end.y - start.y) / length } : { x: 0, y: 0 };
+};
+
+/**
+ * 测量路径，提供路径长度、指定长度处的点及切线等查询
+ *
+ * @param instructions 绝对坐标的路径指令列表
+ *
+ * @note
+ *
+ * ① 法线方向为切线向量 (x, y) 旋转得到的 (-y, x)，与 bezier-js 的 normal 一致
+ *
+ * ② 椭圆弧会转换为若干段三阶贝塞尔曲线测量，其指令参数 t 按曲线段数均分
+ *
+ * @example
+ *
+ * const measure = measurePath(pathObject.path);
+ * const point = measure.getPointAtLength(measure.length / 2);
+ */
+const measurePath = (instructions: Instruction[]) => {
+  let start: Crood = { x: 0, y: 0 };
+  let current: Crood = { x: 0, y: 0 };
+
+  const items = instructions.map((instruction) => {
+    const [type, ...params] = instruction as [InstructionType, ...number[]];
+
+    let curves: Crood[][] = [];
+    if (type === InstructionType.START) {
+      start = current = { x: params[0], y: params[1] };
+    } else if (type === InstructionType.CLOSE) {
+      if (current.x !== start.x || current.y !== start.y) curves = [[current, start]];
+      current = start;
+    } else {
+      curves = getInstructionCurves(current, instruction);
+      current = { x: params[params.length - 2], y: params[params.length - 1] };
+    }
+
+    const measures = curves.map(measureCurve);
+    return {
+      end: current,
+      measures,
+      length: measures.reduce((sum, i) => sum + i.length, 0),
+    };
+  });
+
+  const length = items.reduce((sum, i) => sum + i.length, 0);
+
+  /** 定位指令上指定参数处所在的曲线段 */
+  const locateInstruction = (index: number, t: number) => {
+    const item = items[index];
+    if (!item?.measures.length) return;
+    const count = item.measures.length;
+    const _t = Math.min(Math.max(t, 0), 1) * count;
+    const i = Math.min(Math.floor(_t), count - 1);
+    return { measure: item.measures[i], t: _t - i };
+  };
+
+  /** 定位指定长度处所在的曲线段 */
+  const locateLength = (distance: number) => {
+    let rest = Math.min(Math.max(distance, 0), length);
+    let last: { measure: CurveMeasure; t: number } | undefined;
+    for (const item of items) {
+      for (const measure of item.measures) {
+        if (!measure.length) continue;
+        if (rest <= measure.length) return { measure, t: measure.getT(rest) };
+        rest -= measure.length;
+        last = { measure, t: 1 };
+      }
+    }
+    return last;
+  };
+
+  const toNormal = (tangent?: Crood) => (tangent ? { x: -tangent.y, y: tangent.x } : undefined);
+
+  const getInstructionTangentAt = (index: number, t: number) => {
+    const location = locateInstruction(index, t);
+    if (!location) return;
+    return getCurveTangent(location.measure, location.t);
+  };
+
+  const getTangentAtLength = (distance: number) => {
+    const location = locateLength(distance);
+    if (!location) return;
+    return getCurveTangent(location.measure, location.t);
+  };
+
+  return {
+    /** 路径总长度 */
+    length,
+    /** 获取指令的长度 */
+    getInstructionLength: (index: number) => items[index]?.length ?? 0,
+    /** 获取指令上指定参数处的点，起始指令返回其所在的点 */
+    getInstructionPointAt: (index: number, t: number): Crood | undefined => {
+      const location = locateInstruction(index, t);
+      if (!location) return items[index] && { ...items[index].end };
+      return location.measure.get(location.t);
+    },
+    /** 获取指令上指定参数处的单位切线方向 */
+    getInstructionTangentAt,
+    /** 获取指令上指定参数处的单位法线方向 */
+    getInstructionNormalAt: (index: number, t: number) =>
+      toNormal(getInstructionTangentAt(index, t)),
+    /** 获取从路径起点出发指定长度处的点，超出范围时取端点 */
+    getPointAtLength: (distance: number): Crood | undefined => {
+      const location = locateLength(distance);
+      if (!location) return items[0] && { ...items[0].end };
+      return location.measure.get(location.t);
+    },
+    /** 获取从路径起点出发指定长度处的单位切线方向 */
+    getTangentAtLength,
+    /** 获取从路径起点出发指定长度处的单位法线方向 */
+    getNormalAtLength: (distance: number) => toNormal(getTangentAtLength(distance)),
+  };
+};
+
+export default measurePath;
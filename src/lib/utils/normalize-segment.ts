@@ -0,0 +1,49 @@
+import { InstructionType, type Instruction } from '../instruction';
+
+/**
+ * 规范化单个子路径的指令列表，使其满足编辑器对路径段的约定
+ *
+ * @param segment 子路径指令列表，会被原地修改
+ *
+ * @returns 传入的指令列表
+ */
+const normalizeSegment = (segment: Instruction[]) => {
+  // ① 修正头指令，头指令必须是M开始指令，其他的也没效果
+  if (segment[0][0] !== InstructionType.START) {
+    segment[0] = [InstructionType.START, ...segment[0].slice(segment[0].length - 2)] as Instruction;
+  }
+
+  // ② 闭合指令的字母全改为大小以保证统一处理
+  if (segment[segment.length - 1][0].toUpperCase() === InstructionType.CLOSE) {
+    segment[segment.length - 1][0] = InstructionType.CLOSE;
+  }
+
+  // ③ 小于两个点的闭合路径直接解除闭合
+  if (segment.length <= 2 && segment[segment.length - 1][0] === InstructionType.CLOSE) {
+    segment.pop();
+  }
+
+  // ④ 闭合的路径如果在闭合指令前没有回到起始点，补充一条回到起始点的指令
+  const isAutoClose = segment[segment.length - 1][0] === InstructionType.CLOSE;
+  if (isAutoClose) {
+    const startPoint = segment[0].slice(segment[0].length - 2);
+    const endPoint = segment[segment.length - 2].slice(segment[segment.length - 2].length - 2);
+    if (
+      // 如果路径只有一个起始点且闭合[M,Z]
+      segment[0] === segment[segment.length - 2] ||
+      // 或者路径闭合但是最后一个路径节点不完全等于起始点
+      endPoint[0] !== startPoint[0] ||
+      endPoint[1] !== startPoint[1]
+    ) {
+      segment.splice(segment.length - 1, 0, [
+        InstructionType.LINE,
+        startPoint[0],
+        startPoint[1],
+      ] as Instruction);
+    }
+  }
+
+  return segment;
+};
+
+export default normalizeSegment;
@@ -0,0 +1,151 @@
+import { fabric } from 'fabric';
+import pick from 'lodash-es/pick';
+import { InstructionType, type Instruction } from '../instruction';
+import enableArcRender from './enable-arc-render';
+import parsePathJSON from './parse-path-json';
+
+/**
+ * 生成椭圆（弧）路径指令，角度为弧度，顺时针方向
+ */
+const ellipse = (rx: number, ry: number, startAngle = 0, endAngle = Math.PI * 2) => {
+  const sweep = Math.min(Math.max(endAngle - startAngle, 0), Math.PI * 2);
+  const pointAt = (angle: number) => [rx * Math.cos(angle), ry * Math.sin(angle)];
+
+  // 完整的椭圆拆分为两段椭圆弧并闭合
+  if (sweep >= Math.PI * 2 - 1e-9) {
+    const [x, y] = pointAt(startAngle);
+    const [mx, my] = pointAt(startAngle + Math.PI);
+    return [
+      [InstructionType.START, x, y],
+      [InstructionType.ARC, rx, ry, 0, 0, 1, mx, my],
+      [InstructionType.ARC, rx, ry, 0, 0, 1, x, y],
+      [InstructionType.CLOSE],
+    ] as Instruction[];
+  }
+
+  return [
+    [InstructionType.START, ...pointAt(startAngle)],
+    [InstructionType.ARC, rx, ry, 0, sweep > Math.PI ? 1 : 0, 1, ...pointAt(startAngle + sweep)],
+  ] as Instruction[];
+};
+
+/**
+ * 生成矩形路径指令，存在圆角时使用椭圆弧连接
+ */
+const rect = (width: number, height: number, rx = 0, ry = 0) => {
+  const x = -width / 2;
+  const y = -height / 2;
+
+  rx = Math.min(Math.max(rx || ry, 0), width / 2);
+  ry = Math.min(Math.max(ry || rx, 0), height / 2);
+
+  if (!rx || !ry) {
+    return [
+      [InstructionType.START, x, y],
+      [InstructionType.LINE, x + width, y],
+      [InstructionType.LINE, x + width, y + height],
+      [InstructionType.LINE, x, y + height],
+      [InstructionType.LINE, x, y],
+      [InstructionType.CLOSE],
+    ] as Instruction[];
+  }
+
+  return [
+    [InstructionType.START, x + rx, y],
+    [InstructionType.LINE, x + width - rx, y],
+    [InstructionType.ARC, rx, ry, 0, 0, 1, x + width, y + ry],
+    [InstructionType.LINE, x + width, y + height - ry],
+    [InstructionType.ARC, rx, ry, 0, 0, 1, x + width - rx, y + height],
+    [InstructionType.LINE, x + rx, y + height],
+    [InstructionType.ARC, rx, ry, 0, 0, 1, x, y + height - ry],
+    [InstructionType.LINE, x, y + ry],
+    [InstructionType.ARC, rx, ry, 0, 0, 1, x + rx, y],
+    [InstructionType.CLOSE],
+  ] as Instruction[];
+};
+
+/**
+ * 将画布中的基础形状转换为外观一致的路径对象
+ *
+ * @param object 形状对象，支持 path、rect、circle、ellipse、polygon、polyline
+ *
+ * @returns 新建的路径对象，不支持的形状返回undefined
+ *
+ * @note
+ *
+ * ① 路径对象保持形状原有的位置、变换、尺寸及样式，但不会添加到画布中
+ *
+ * ② 传入路径对象时返回其克隆的新对象，椭圆弧指令保持不变
+ */
+const objectToPath = (object: fabric.Object) => {
+  let instructions: Instruction[] | undefined;
+  // 形状渲染时相对自身中心的偏移，与路径对象的 pathOffset 含义一致
+  let offset: Crood = { x: 0, y: 0 };
+
+  switch (object.type) {
+    case 'path': {
+      const path = object as fabric.Path;
+      instructions = path.path as unknown as Instruction[];
+      offset = path.pathOffset;
+      break;
+    }
+    case 'rect': {
+      const { width = 0, height = 0, rx, ry } = object as fabric.Rect;
+      instructions = rect(width, height, rx, ry);
+      break;
+    }
+    case 'circle': {
+      const { radius = 0, startAngle = 0, endAngle = 360 } = object as fabric.Circle;
+      instructions = ellipse(
+        radius,
+        radius,
+        fabric.util.degreesToRadians(startAngle),
+        fabric.util.degreesToRadians(endAngle),
+      );
+      break;
+    }
+    case 'ellipse': {
+      const { rx = 0, ry = 0 } = object as fabric.Ellipse;
+      instructions = ellipse(rx, ry);
+      break;
+    }
+    case 'polygon':
+    case 'polyline': {
+      const { points = [], pathOffset } = object as fabric.Polyline & { pathOffset: Crood };
+      if (!points.length) return;
+      instructions = points.map(
+        (point, index) =>
+          [index ? InstructionType.LINE : InstructionType.START, point.x, point.y] as Instruction,
+      );
+      if (object.type === 'polygon') instructions.push([InstructionType.CLOSE]);
+      offset = pathOffset;
+      break;
+    }
+    default:
+      break;
+  }
+
+  if (!instructions) return;
+
+  const { layout, styles } = parsePathJSON(object as fabric.Path);
+
+  const _instructions = instructions.map((i) => [...i] as Instruction);
+  const pathObject = new fabric.Path((fabric.util as any).joinPath(_instructions), {
+    ...styles,
+    // fabric的toJSON会对数值做精度处理，布局信息需要直接从对象上读取
+    ...pick(object, Object.keys(layout)),
+    visible: object.visible,
+  });
+
+  // 构造时会按指令重新计算尺寸和偏移，需要还原为形状的状态才能保持位置一致
+  pathObject.set({ width: object.width, height: object.height });
+  pathObject.pathOffset = new fabric.Point(offset.x, offset.y);
+  pathObject.path = _instructions as unknown as fabric.Point[];
+  pathObject.setCoords();
+
+  enableArcRender(pathObject);
+
+  return pathObject;
+};
+
+export default objectToPath;
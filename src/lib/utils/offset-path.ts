@@ -0,0 +1,133 @@
+import { InstructionType, type Instruction } from '../instruction';
+import booleanPath from './boolean-path';
+import convertArcToCubic from './convert-arc-to-cubic';
+import outlineStroke, { type StrokeOutlineOptions } from './outline-stroke';
+
+const EPSILON = 1e-9;
+
+const endOf = (instruction: Instruction) => {
+  const [x, y] = instruction.slice(-2) as number[];
+  return { x, y };
+};
+
+/**
+ * 合并子路径中重合及共线的直线节点
+ *
+ * @note 描边轮廓与原区域合并后，转角处会残留重合点，直边中间也会残留连接处的节点
+ */
+const mergeLinePoints = (segment: Instruction[]) => {
+  const isClosePath = segment[segment.length - 1]?.[0] === InstructionType.CLOSE;
+  if (segment.length < 2) return segment;
+
+  const start = endOf(segment[0]);
+  const edges = segment.slice(1).filter((i) => i[0] !== InstructionType.CLOSE);
+
+  // 闭合路径的首尾相连，按环处理，闭合指令隐含的直线需要补全
+  if (isClosePath) {
+    const end = edges.length ? endOf(edges[edges.length - 1]) : start;
+    if (Math.hypot(end.x - start.x, end.y - start.y) >= EPSILON) {
+      edges.push([InstructionType.LINE, start.x, start.y]);
+    }
+  }
+
+  if (!edges.length) return segment;
+
+  const fromOf = (index: number) => {
+    if (index > 0) return endOf(edges[index - 1]);
+    return isClosePath ? endOf(edges[edges.length - 1]) : start;
+  };
+
+  let merged = true;
+  while (merged && edges.length > 2) {
+    merged = false;
+
+    for (let i = 0; i < edges.length; i++) {
+      if (edges[i][0] !== InstructionType.LINE) continue;
+
+      const from = fromOf(i);
+      const to = endOf(edges[i]);
+      const length = Math.hypot(to.x - from.x, to.y - from.y);
+
+      // 重合点
+      if (length < EPSILON) {
+        edges.splice(i, 1);
+        merged = true;
+        break;
+      }
+
+      // 与后一条直线共线且同向时，中间节点可以移除
+      const nextIndex = i + 1 < edges.length ? i + 1 : isClosePath ? 0 : -1;
+      const next = edges[nextIndex];
+      if (!next || next[0] !== InstructionType.LINE) continue;
+
+      const nextTo = endOf(next);
+      const nextLength = Math.hypot(nextTo.x - to.x, nextTo.y - to.y);
+      if (nextLength < EPSILON) continue;
+
+      const d1 = { x: (to.x - from.x) / length, y: (to.y - from.y) / length };
+      const d2 = { x: (nextTo.x - to.x) / nextLength, y: (nextTo.y - to.y) / nextLength };
+      if (Math.abs(d1.x * d2.y - d1.y * d2.x) >= EPSILON || d1.x * d2.x + d1.y * d2.y <= 0) {
+        continue;
+      }
+
+      // 被合并的是环的最后一条边时，合并后的边仍需位于末尾以确定起始点
+      if (nextIndex === 0) {
+        edges.splice(i, 1, [InstructionType.LINE, nextTo.x, nextTo.y]);
+        edges.shift();
+      } else {
+        edges.splice(i, 2, [InstructionType.LINE, nextTo.x, nextTo.y]);
+      }
+      merged = true;
+      break;
+    }
+  }
+
+  if (!isClosePath) return [segment[0], ...edges];
+
+  const { x, y } = endOf(edges[edges.length - 1]);
+  return [[InstructionType.START, x, y], ...edges, [InstructionType.CLOSE]] as Instruction[];
+};
+
+/**
+ * 将路径的填充区域向外扩展或向内收缩指定距离
+ *
+ * @param segments 绝对坐标的子路径指令列表，未闭合的子路径按闭合处理
+ * @param distance 偏移距离，正数向外扩展，负数向内收缩
+ * @param options 偏移配置
+ *
+ * @returns 偏移后的子路径列表，填充规则 nonzero 与 evenodd 效果一致
+ *
+ * @note 偏移结果为原区域与其轮廓描边区域的并集（扩展）或差集（收缩），转角按连接方式处理
+ */
+const offsetPath = (
+  segments: Instruction[][],
+  distance: number,
+  options: Partial<
+    Pick<StrokeOutlineOptions, 'lineJoin' | 'miterLimit' | 'tolerance'> & {
+      /** 原路径的填充规则 */
+      fillRule: string;
+    }
+  > = {},
+) => {
+  const { fillRule = 'nonzero', ...strokeOptions } = options;
+
+  const shape = { segments: segments.map(convertArcToCubic), fillRule };
+  if (!distance) return booleanPath('union', [shape]);
+
+  const closedSegments = segments.map((segment) =>
+    segment[segment.length - 1]?.[0] === InstructionType.CLOSE
+      ? segment
+      : [...segment, [InstructionType.CLOSE] as Instruction],
+  );
+  const outline = outlineStroke(closedSegments, {
+    ...strokeOptions,
+    width: Math.abs(distance) * 2,
+    lineCap: 'butt',
+  });
+
+  return booleanPath(distance > 0 ? 'union' : 'difference', [shape, { segments: outline }]).map(
+    mergeLinePoints,
+  );
+};
+
+export default offsetPath;
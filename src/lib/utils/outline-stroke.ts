@@ -0,0 +1,291 @@
+import { Bezier } from 'bezier-js';
+import { InstructionType, type Instruction } from '../instruction';
+import booleanPath from './boolean-path';
+import fitCurve from './fit-curve';
+import getInstructionCurves from './get-instruction-curves';
+
+export type StrokeOutlineOptions = {
+  /** 描边宽度 */
+  width: number;
+  /** 转角连接方式 */
+  lineJoin: 'miter' | 'round' | 'bevel';
+  /** 端点样式 */
+  lineCap: 'butt' | 'round' | 'square';
+  /** 尖角连接的长度限制，超出时改为斜角连接 */
+  miterLimit: number;
+  /** 曲线偏移的拟合误差 */
+  tolerance: number;
+};
+
+/** 圆弧的三阶贝塞尔曲线近似系数 */
+const KAPPA = 0.5522847498;
+
+const normalize = (crood: Crood) => {
+  const length = Math.hypot(crood.x, crood.y);
+  return length ? { x: crood.x / length, y: crood.y / length } : crood;
+};
+
+/** 方向的左侧法线 */
+const normalOf = (direction: Crood) => ({ x: -direction.y, y: direction.x });
+
+const isSameCrood = (a: Crood, b: Crood) => Math.hypot(a.x - b.x, a.y - b.y) < 1e-9;
+
+/**
+ * 获取曲线起点及终点的切线方向
+ */
+const getTangents = (curve: Crood[]) => {
+  const first = curve[0];
+  const last = curve[curve.length - 1];
+  const head = curve.find((i) => !isSameCrood(i, first)) ?? last;
+  const tail = [...curve].reverse().find((i) => !isSameCrood(i, last)) ?? first;
+  return {
+    start: normalize({ x: head.x - first.x, y: head.y - first.y }),
+    end: normalize({ x: last.x - tail.x, y: last.y - tail.y }),
+  };
+};
+
+const toInstructions = (curves: Crood[][]) =>
+  curves.map(
+    (curve) =>
+      [
+        curve.length === 2 ? InstructionType.LINE : InstructionType.BEZIER_CURVE,
+        ...curve.slice(1).flatMap((i) => [i.x, i.y]),
+      ] as Instruction,
+  );
+
+/**
+ * 生成多边形子路径
+ */
+const polygon = (points: Crood[]): Instruction[] => [
+  [InstructionType.START, points[0].x, points[0].y],
+  ...points.slice(1).map((i) => [InstructionType.LINE, i.x, i.y] as Instruction),
+  [InstructionType.CLOSE],
+];
+
+/**
+ * 生成圆形子路径
+ */
+const circle = (center: Crood, radius: number): Instruction[] => {
+  const { x, y } = center;
+  const k = radius * KAPPA;
+  return [
+    [InstructionType.START, x + radius, y],
+    [InstructionType.BEZIER_CURVE, x + radius, y + k, x + k, y + radius, x, y + radius],
+    [InstructionType.BEZIER_CURVE, x - k, y + radius, x - radius, y + k, x - radius, y],
+    [InstructionType.BEZIER_CURVE, x - radius, y - k, x - k, y - radius, x, y - radius],
+    [InstructionType.BEZIER_CURVE, x + k, y - radius, x + radius, y - k, x + radius, y],
+    [InstructionType.CLOSE],
+  ];
+};
+
+/**
+ * 计算曲线指定距离的偏移曲线，通过采样偏移点后重新拟合得到
+ */
+const offsetCurve = (curve: Crood[], distance: number, tolerance: number) => {
+  const bezier = new Bezier(curve);
+  const tangents = getTangents(curve);
+
+  const getNormal = (t: number) => {
+    let derivative = bezier.derivative(t);
+    // 控制点与端点重合时端点处导数为零，取邻近位置的方向
+    if (Math.hypot(derivative.x, derivative.y) < 1e-12) {
+      derivative = t === 0 ? tangents.start : t === 1 ? tangents.end : bezier.derivative(t + 1e-4);
+    }
+    return normalOf(normalize(derivative));
+  };
+
+  const steps = Math.min(
+    Math.max(Math.ceil(bezier.length() / Math.max(tolerance * 4, 1)), 16),
+    200,
+  );
+  const points = Array.from({ length: steps + 1 }).map((_, i) => {
+    const t = i / steps;
+    const point = bezier.get(t);
+    const normal = getNormal(t);
+    return { x: point.x + normal.x * distance, y: point.y + normal.y * distance };
+  });
+
+  return fitCurve(points, tolerance, tangents.start, {
+    x: -tangents.end.x,
+    y: -tangents.end.y,
+  }) as Crood[][];
+};
+
+/**
+ * 将路径的描边转换为填充轮廓
+ *
+ * @param segments 绝对坐标的子路径指令列表
+ * @param options 描边配置
+ *
+ * @returns 轮廓子路径列表，填充规则 nonzero 与 evenodd 效果一致
+ *
+ * @note
+ *
+ * 轮廓由各段曲线的描边区域、转角连接区域及端点区域合并而成，虚线描边不做处理
+ */
+const outlineStroke = (segments: Instruction[][], options: Partial<StrokeOutlineOptions> = {}) => {
+  const { width = 1, lineJoin = 'miter', lineCap = 'butt', miterLimit = 4 } = options;
+  const radius = width / 2;
+  if (!(radius > 0)) return [];
+
+  const tolerance = options.tolerance ?? Math.min(radius / 20, 0.1);
+
+  // 每个区域作为独立的运算对象合并，避免区域之间方向不同导致环绕数相互抵消
+  const shapes: Instruction[][] = [];
+
+  /** 曲线两侧偏移后围成的区域 */
+  const addBody = (curve: Crood[]) => {
+    if (curve.length === 2) {
+      const [first, last] = curve;
+      const normal = normalOf(getTangents(curve).start);
+      shapes.push(
+        polygon([
+          { x: first.x + normal.x * radius, y: first.y + normal.y * radius },
+          { x: last.x + normal.x * radius, y: last.y + normal.y * radius },
+          { x: last.x - normal.x * radius, y: last.y - normal.y * radius },
+          { x: first.x - normal.x * radius, y: first.y - normal.y * radius },
+        ]),
+      );
+      return;
+    }
+
+    const left = offsetCurve(curve, radius, tolerance);
+    const right = offsetCurve(curve, -radius, tolerance)
+      .map((item) => [...item].reverse())
+      .reverse();
+
+    shapes.push([
+      [InstructionType.START, left[0][0].x, left[0][0].y],
+      ...toInstructions(left),
+      [InstructionType.LINE, right[0][0].x, right[0][0].y],
+      ...toInstructions(right),
+      [InstructionType.CLOSE],
+    ]);
+  };
+
+  /** 两段曲线之间的转角连接区域 */
+  const addJoin = (point: Crood, inTangent: Crood, outTangent: Crood) => {
+    const cross = inTangent.x * outTangent.y - inTangent.y * outTangent.x;
+    const dot = inTangent.x * outTangent.x + inTangent.y * outTangent.y;
+
+    // 同向共线无需连接
+    if (Math.abs(cross) < 1e-9 && dot > 0) return;
+
+    if (lineJoin === 'round') {
+      shapes.push(circle(point, radius));
+      return;
+    }
+
+    // 折返时两侧偏移点重合，斜角与尖角均无额外区域
+    if (Math.abs(cross) < 1e-9) return;
+
+    // 连接区域位于转向的外侧
+    const side = cross > 0 ? -1 : 1;
+    const inNormal = normalOf(inTangent);
+    const outNormal = normalOf(outTangent);
+    const a = { x: point.x + inNormal.x * side * radius, y: point.y + inNormal.y * side * radius };
+    const b = {
+      x: point.x + outNormal.x * side * radius,
+      y: point.y + outNormal.y * side * radius,
+    };
+
+    const ratio = 1 / Math.sqrt((1 + dot) / 2);
+    if (lineJoin === 'miter' && ratio <= miterLimit) {
+      const direction = normalize({ x: inNormal.x + outNormal.x, y: inNormal.y + outNormal.y });
+      const miter = {
+        x: point.x + direction.x * side * radius * ratio,
+        y: point.y + direction.y * side * radius * ratio,
+      };
+      shapes.push(polygon([point, a, miter, b]));
+    } else {
+      shapes.push(polygon([point, a, b]));
+    }
+  };
+
+  /** 非闭合子路径的端点区域，direction 为朝外的方向 */
+  const addCap = (point: Crood, direction: Crood) => {
+    if (lineCap === 'round') {
+      shapes.push(circle(point, radius));
+      return;
+    }
+    if (lineCap === 'square') {
+      const normal = normalOf(direction);
+      const offset = { x: direction.x * radius, y: direction.y * radius };
+      shapes.push(
+        polygon([
+          { x: point.x + normal.x * radius, y: point.y + normal.y * radius },
+          { x: point.x + normal.x * radius + offset.x, y: point.y + normal.y * radius + offset.y },
+          { x: point.x - normal.x * radius + offset.x, y: point.y - normal.y * radius + offset.y },
+          { x: point.x - normal.x * radius, y: point.y - normal.y * radius },
+        ]),
+      );
+    }
+  };
+
+  const addSubpath = (start: Crood, curves: Crood[][], closed: boolean) => {
+    // 零长度的子路径只绘制端点
+    if (!curves.length) {
+      if (!closed) addCap(start, { x: 1, y: 0 });
+      return;
+    }
+
+    const tangents = curves.map(getTangents);
+    curves.forEach((curve, index) => {
+      addBody(curve);
+      if (index < curves.length - 1) {
+        addJoin(curve[curve.length - 1], tangents[index].end, tangents[index + 1].start);
+      }
+    });
+
+    if (closed) {
+      addJoin(start, tangents[tangents.length - 1].end, tangents[0].start);
+    } else {
+      const lastCurve = curves[curves.length - 1];
+      addCap(start, { x: -tangents[0].start.x, y: -tangents[0].start.y });
+      addCap(lastCurve[lastCurve.length - 1], tangents[tangents.length - 1].end);
+    }
+  };
+
+  segments.forEach((segment) => {
+    let start: Crood | undefined;
+    let current: Crood | undefined;
+    let curves: Crood[][] = [];
+
+    segment.forEach((instruction) => {
+      const [type, ...params] = instruction as [InstructionType, ...number[]];
+      if (type === InstructionType.START) {
+        if (start) addSubpath(start, curves, false);
+        start = current = { x: params[0], y: params[1] };
+        curves = [];
+        return;
+      }
+
+      if (!start || !current) return;
+
+      if (type === InstructionType.CLOSE) {
+        if (!isSameCrood(current, start)) curves.push([current, start]);
+        addSubpath(start, curves, true);
+        current = start;
+        start = undefined;
+        curves = [];
+        return;
+      }
+
+      getInstructionCurves(current, instruction).forEach((curve) => {
+        // 忽略零长度的曲线
+        if (curve.every((i) => isSameCrood(i, curve[0]))) return;
+        curves.push(curve);
+      });
+      current = { x: params[params.length - 2], y: params[params.length - 1] };
+    });
+
+    if (start) addSubpath(start, curves, false);
+  });
+
+  return booleanPath(
+    'union',
+    shapes.map((shape) => ({ segments: [shape] })),
+  );
+};
+
+export default outlineStroke;
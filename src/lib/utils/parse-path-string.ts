@@ -0,0 +1,70 @@
+/** 各指令的参数数量 */
+const COMMAND_LENGTHS: Record<string, number> = {
+  m: 2,
+  l: 2,
+  h: 1,
+  v: 1,
+  c: 6,
+  s: 4,
+  q: 4,
+  t: 2,
+  a: 7,
+  z: 0,
+};
+
+const NUMBER = '[-+]?(?:\\d*\\.\\d+|\\d+\\.?)(?:[eE][-+]?\\d+)?';
+const COMMA_WSP = '(?:\\s+,?\\s*|,\\s*)';
+const NUMBER_COMMA_WSP = `(${NUMBER})\\s*${COMMA_WSP}`;
+const FLAG_COMMA_WSP = `([01])${COMMA_WSP}?`;
+
+/**
+ * 解析路径字符串为指令列表，不依赖fabric，解析结果与 fabric.util.parsePath 一致
+ *
+ * @param d 路径字符串
+ *
+ * @returns 未做坐标转换的原始指令列表，可通过 makePathAbsolute 转为绝对坐标指令
+ *
+ * @note 同一指令后的多组参数会拆分为多条指令，M 指令之后的多组参数视为 L 指令
+ */
+const parsePathString = (d: string) => {
+  const result: [string, ...number[]][] = [];
+
+  const commands = d.match(/[mzlhvcsqta][^mzlhvcsqta]*/gi) ?? [];
+  commands.forEach((item) => {
+    let command = item.charAt(0);
+    const paramsString = item.slice(1).trim();
+
+    // 椭圆弧的标志位参数之间允许不使用分隔符，需要单独处理
+    const pattern =
+      command.toLowerCase() === 'a'
+        ? new RegExp(
+            `${NUMBER_COMMA_WSP}?${NUMBER_COMMA_WSP}?${NUMBER_COMMA_WSP}${FLAG_COMMA_WSP}${FLAG_COMMA_WSP}${NUMBER_COMMA_WSP}?(${NUMBER})`,
+            'g',
+          )
+        : new RegExp(NUMBER, 'g');
+
+    const params: number[] = [];
+    for (let match = pattern.exec(paramsString); match; match = pattern.exec(paramsString)) {
+      const values = match.length > 1 ? match.slice(1) : [match[0]];
+      values.forEach((value) => {
+        const param = parseFloat(value);
+        if (!isNaN(param)) params.push(param);
+      });
+    }
+
+    const length = COMMAND_LENGTHS[command.toLowerCase()];
+    if (length && params.length > length) {
+      for (let i = 0; i < params.length; i += length) {
+        result.push([command, ...params.slice(i, i + length)]);
+        if (command === 'm') command = 'l';
+        if (command === 'M') command = 'L';
+      }
+    } else {
+      result.push([command, ...params]);
+    }
+  });
+
+  return result;
+};
+
+export default parsePathString;
@@ -0,0 +1,120 @@
+import { InstructionType, type Instruction } from '../instruction';
+
+/**
+ * 移除子路径中的路径节点
+ *
+ * @param instructions 子路径指令列表
+ * @param indexes 需要移除的路径节点所在的指令索引
+ *
+ * @returns 移除后拆分出的子路径指令列表，整个子路径都被移除时返回空数组
+ *
+ * @note
+ *
+ * ① 只有一个删除节点时，删除节点前后线段，连接前后节点
+ * ② 有多个删除节点，仅删除节点间的线段，中间节点同时也会被移除
+ * ③ 返回的指令尽量沿用传入的指令对象（部分会被原地修改），便于调用方根据指令对象沿用路径节点
+ */
+const removeSegmentNodes = (instructions: Instruction[], indexes: number[]) => {
+  indexes = [...indexes].sort();
+
+  let isClosePath = instructions[instructions.length - 1]?.[0] === InstructionType.CLOSE;
+
+  const isMultipleRemove = indexes.length > 1;
+  const isIncludeStartNode = indexes[0] === 0;
+  if (isMultipleRemove && isIncludeStartNode && isClosePath) indexes.push(instructions.length - 2);
+
+  // 如果路径所有点都在删除列表列表中，直接移除整个路径
+  const isWholePath =
+    indexes.length === instructions.length ||
+    (isClosePath && indexes.length === instructions.length - 1);
+  if (isWholePath) return [];
+
+  /**
+   * 删除单节点时
+   */
+  const removeSingleNode = (index: number) => {
+    const _segments: Instruction[][] = [[...instructions]];
+
+    const segment = _segments[0];
+
+    const pre = segment.slice(0, index);
+    const next = segment.slice(index);
+
+    if (isClosePath) {
+      pre.shift();
+      next.pop();
+      if (next[0][0] === InstructionType.START) next.pop();
+    }
+
+    next.shift();
+    next[0]?.splice(0, next[0].length, InstructionType.START, ...next[0].slice(-2));
+
+    _segments.shift();
+    if (isClosePath) {
+      next.push(...pre);
+      pre.length = 0;
+    } else {
+      if (pre.length > 0 && next[0]) next[0][0] = InstructionType.LINE;
+      pre.push(...next);
+      next.length = 0;
+    }
+
+    if (next.length >= 1) _segments.unshift(next);
+    if (pre.length >= 1) _segments.unshift(pre);
+
+    // 如果原本是闭合路径，且剩余节点多于1个，保留闭合状态
+    if (isClosePath && _segments[0].length > 1) {
+      _segments[0].push([InstructionType.LINE, ..._segments[0][0].slice(-2)] as Instruction, [
+        InstructionType.CLOSE,
+      ]);
+    }
+
+    return _segments;
+  };
+
+  /**
+   * 删除多节点
+   */
+  const removeMulitpleNodes = (indexes: number[]) => {
+    const _segments: Instruction[][] = [[...instructions]];
+
+    const removeIndexes =
+      indexes.length <= 1
+        ? indexes
+        : indexes.filter((i, idx, arr) => arr.length <= 1 || (idx >= 1 && arr[idx - 1] + 1 === i));
+
+    for (let i = removeIndexes.length - 1, startIndex = 0; i >= 0; i--) {
+      const segment = _segments[0];
+      const index = startIndex + removeIndexes[i];
+
+      const pre = segment.slice(0, index);
+      const next = segment.slice(index);
+
+      if (isClosePath) {
+        pre.shift();
+        next.pop();
+        if (next[0][0] === InstructionType.START) next.pop();
+      }
+
+      next[0]?.splice(0, next[0].length, InstructionType.START, ...next[0].slice(-2));
+
+      _segments.shift();
+      if (isClosePath) {
+        startIndex = next.length - 1;
+        next.push(...pre);
+        pre.length = 0;
+      }
+
+      if (next.length > 1) _segments.unshift(next);
+      if (pre.length > 1) _segments.unshift(pre);
+
+      isClosePath = false;
+    }
+
+    return _segments;
+  };
+
+  return indexes.length === 1 ? removeSingleNode(indexes[0]) : removeMulitpleNodes(indexes);
+};
+
+export default removeSegmentNodes;
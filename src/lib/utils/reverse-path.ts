@@ -1,4 +1,4 @@
-import { InstructionType, type Instruction } from '..';
+import { InstructionType, type Instruction } from '../instruction';
 
 /**
  * 反转路径
@@ -50,6 +50,18 @@ const reversePath = (path: Instruction[]) => {
           ...preMajorPointCrood,
         ]);
         break;
+      case InstructionType.ARC:
+        _path.push([
+          InstructionType.ARC,
+          instruction[1],
+          instruction[2],
+          instruction[3],
+          instruction[4],
+          // 反向绘制时需要反转方向
+          1 - instruction[5],
+          ...preMajorPointCrood,
+        ]);
+        break;
       case InstructionType.CLOSE:
         isClosePath = true;
         break;
@@ -0,0 +1,26 @@
+import { InstructionType, type PathNode } from '../instruction';
+import reversePath from './reverse-path';
+
+/**
+ * 反转子路径方向
+ *
+ * @param segment 路径节点列表
+ *
+ * @returns 反转后的指令列表，以及跟随反转的节点标识及类型，闭合路径的起始点保持不变
+ */
+const reverseSegmentNodes = <T extends Crood>(segment: PathNode<T>[]) => {
+  const isClosePath = segment[segment.length - 1]?.instruction[0] === InstructionType.CLOSE;
+
+  const reverseItems = <K>(items: K[]) =>
+    isClosePath
+      ? [items[0], ...items.slice(1, -2).reverse(), items[0], items[items.length - 1]]
+      : items.reverse();
+
+  return {
+    instructions: reversePath(segment.map((i) => i.instruction)),
+    ids: reverseItems(segment.map((i) => i.id)),
+    nodeTypes: reverseItems(segment.map((i) => i.nodeType)),
+  };
+};
+
+export default reverseSegmentNodes;
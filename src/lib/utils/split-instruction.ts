@@ -1,5 +1,5 @@
 import { Bezier } from 'bezier-js';
-import { InstructionType, type Instruction } from '..';
+import { InstructionType, type Instruction } from '../instruction';
 import { fabric } from 'fabric';
 
 /**
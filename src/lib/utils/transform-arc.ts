@@ -0,0 +1,60 @@
+import type { Instruction } from '../instruction';
+
+/**
+ * 对椭圆弧指令的半径、旋转角度及方向参数应用矩阵变换
+ *
+ * @param instruction 椭圆弧指令 [A, rx, ry, rotation, largeArc, sweep, x, y]
+ * @param matrix 变换矩阵，只使用其中的线性变换部分
+ *
+ * @note 终点坐标不做处理，需要与其他指令的坐标一样另行变换
+ */
+const transformArc = (instruction: Instruction, matrix: number[]) => {
+  const [type, rx, ry, rotation, largeArc, sweep, x, y] = instruction;
+  const [a, b, c, d] = matrix;
+
+  const radian = (rotation * Math.PI) / 180;
+  const cos = Math.cos(radian);
+  const sin = Math.sin(radian);
+
+  // 椭圆的两条半轴向量经过变换后的结果
+  const ux = (a * cos + c * sin) * rx;
+  const uy = (b * cos + d * sin) * rx;
+  const vx = (-a * sin + c * cos) * ry;
+  const vy = (-b * sin + d * cos) * ry;
+
+  // 通过奇异值分解得到新的长短半轴及其角度
+  const xx = ux * ux + vx * vx;
+  const yy = uy * uy + vy * vy;
+  const xy = ux * uy + vx * vy;
+  const trace = xx + yy;
+  const delta = Math.sqrt(Math.max(0, (xx - yy) * (xx - yy) + 4 * xy * xy));
+
+  const major = Math.sqrt(Math.max(0, (trace + delta) / 2));
+  const minor = Math.sqrt(Math.max(0, (trace - delta) / 2));
+  let angle = (Math.atan2(2 * xy, xx - yy) / 2) * (180 / Math.PI);
+
+  // 保持原x半轴的对应关系，避免无变换时也交换了半径
+  const majorRadian = (angle * Math.PI) / 180;
+  const isSwapped =
+    Math.abs(ux * Math.cos(majorRadian) + uy * Math.sin(majorRadian)) <
+    Math.abs(-ux * Math.sin(majorRadian) + uy * Math.cos(majorRadian));
+  if (isSwapped) angle += 90;
+
+  // 角度取与原角度最接近的等效值
+  const target = rotation + Math.atan2(b, a) * (180 / Math.PI);
+  angle += Math.round((target - angle) / 180) * 180;
+
+  return [
+    type,
+    isSwapped ? minor : major,
+    isSwapped ? major : minor,
+    angle,
+    largeArc,
+    // 镜像变换会反转绘制方向
+    a * d - b * c < 0 ? 1 - sweep : sweep,
+    x,
+    y,
+  ] as Instruction;
+};
+
+export default transformArc;
@@ -0,0 +1,47 @@
+import { InstructionType, type Instruction, type PathNode } from '../instruction';
+
+export type SegmentUpdateCommand = {
+  type: 'add' | 'update';
+  index: number;
+  instruction: Instruction;
+};
+
+/**
+ * 通过更新命令原地更新路径节点列表
+ *
+ * @param segment 路径节点列表
+ * @param commands 更新命令，按索引从后往前执行，避免插入后影响其余命令的索引
+ * @param onUpdate 路径节点的指令被替换前的回调
+ */
+const updateSegmentNodes = <T extends Crood>(
+  segment: PathNode<T>[],
+  commands: SegmentUpdateCommand[],
+  onUpdate?: (pathNode: PathNode<T>) => void,
+) => {
+  commands.sort((a, b) => b.index - a.index);
+
+  commands.forEach(({ type, index, instruction }) => {
+    if (type === 'add') {
+      // 改变原来的起始点指令类型
+      if (index === 0 && segment.length) {
+        segment.splice(0, 1, {
+          id: segment[0].id,
+          nodeType: segment[0].nodeType,
+          segment,
+          instruction: [InstructionType.LINE, ...segment[0].instruction.slice(-2)] as Instruction,
+        });
+      }
+      segment.splice(index, 0, { segment, instruction });
+    }
+
+    if (type === 'update') {
+      const pathNode = segment[index];
+      onUpdate?.(pathNode);
+      pathNode.instruction = instruction;
+    }
+  });
+
+  return segment;
+};
+
+export default updateSegmentNodes;
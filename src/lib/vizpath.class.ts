@@ -1,10 +1,45 @@
 import { fabric } from 'fabric';
+import { v4 as uuid } from 'uuid';
+import { Bezier } from 'bezier-js';
 import cloneDeep from 'lodash-es/cloneDeep';
+import defaults from 'lodash-es/defaults';
 import VizPathCreator from '.';
-import { type Path, type Instruction, InstructionType, type PathNode } from '.';
-import { parsePathJSON, repairPath } from '@utils';
+import {
+  type Path,
+  type Instruction,
+  InstructionType,
+  PathNodeType,
+  type PathNode,
+  type EditingResult,
+} from '.';
+import {
+  booleanPath,
+  buildSegmentNodes,
+  calcCroodsDistance,
+  convertArcToCubic,
+  enableArcRender,
+  findIntersections,
+  fitCurve,
+  formatPathData,
+  getCloseCommands,
+  getInstructionCurves,
+  getPathSegments,
+  getReplaceCommands,
+  inferNodeType,
+  measurePath,
+  offsetPath,
+  outlineStroke,
+  parsePathJSON,
+  removeSegmentNodes,
+  repairPath,
+  transformArc,
+  updateSegmentNodes,
+} from '@utils';
 import round from 'lodash-es/round';
 import BaseEvent from './base-event.class';
+import type { BooleanOperation } from './utils/boolean-path';
+import { DEFAULT_FORMAT_PATH_DATA_OPTIONS } from './utils/format-path-data';
+import type { SegmentUpdateCommand } from './utils/update-segment-nodes';
 
 export type ResponsiveCrood = Crood & {
   setCrood: (crood: Crood, skipObserverIDs?: (string | undefined)[]) => void;
@@ -23,6 +58,128 @@ export type ResponsivePath = {
   pathObject: fabric.Path;
 };
 
+export type VizPathSnapshot = {
+  pathObject: fabric.Path;
+  instructions: Instruction[];
+  ids: (string | undefined)[];
+  nodeTypes: PathNode['nodeType'][];
+  layout: {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+    pathOffset: Crood;
+  };
+}[];
+
+export type PathDataOptions = {
+  /**
+   * 数值精度
+   * @default 3
+   */
+  precision: number;
+  /**
+   * 是否使用相对坐标指令
+   * @default false
+   */
+  relative: boolean;
+  /**
+   * 是否在几何形状允许时使用 H、V、S、T 简写指令
+   * @default false
+   */
+  shorthand: boolean;
+  /**
+   * 是否压缩输出，移除多余的分隔符、前导零及重复的指令字母
+   * @default false
+   */
+  minify: boolean;
+  /**
+   * 坐标系，canvas 为经过路径对象变换后的画布坐标，local 为各路径对象内的局部坐标
+   * @default 'canvas'
+   */
+  coordinate: 'canvas' | 'local';
+};
+
+const DEFAULT_PATH_DATA_OPTIONS: PathDataOptions = {
+  ...DEFAULT_FORMAT_PATH_DATA_OPTIONS,
+  coordinate: 'canvas',
+};
+
+export type HitTestOptions = {
+  /**
+   * 命中的最大距离，使用画布坐标单位
+   * @default 5
+   */
+  tolerance: number;
+  /**
+   * 参与检测的路径
+   * @default vizpath.paths
+   */
+  paths: ResponsivePath[];
+  /**
+   * 是否同时检测最近的路径节点
+   * @default false
+   */
+  nodes: boolean;
+  /**
+   * 是否同时检测最近的曲线变换点
+   * @default false
+   */
+  curveDots: boolean;
+};
+
+export type HitTestResult = {
+  /** 命中的路径 */
+  path: ResponsivePath;
+  /** 命中的指令所在的路径节点 */
+  pathNode: PathNode<ResponsiveCrood>;
+  /** 投影点在指令上的参数，椭圆弧按转换后的曲线段数均分 */
+  t: number;
+  /** 检测点到路径的距离，仅命中节点或曲线变换点时可能大于容差 */
+  distance: number;
+  /** 投影点的画布坐标 */
+  point: Crood;
+  /** 投影点在路径对象内的局部坐标 */
+  localPoint: Crood;
+  /** 容差范围内最近的路径节点 */
+  node?: {
+    pathNode: PathNode<ResponsiveCrood>;
+    distance: number;
+  };
+  /** 容差范围内最近的曲线变换点 */
+  curveDot?: {
+    pathNode: PathNode<ResponsiveCrood>;
+    direction: 'pre' | 'next';
+    distance: number;
+  };
+};
+
+export type PathIntersection = {
+  /** 交点的画布坐标 */
+  point: Crood;
+  /** 两条相交曲线各自所在的路径节点、指令索引及指令上的参数 */
+  a: { pathNode: PathNode<ResponsiveCrood>; index: number; t: number };
+  b: { pathNode: PathNode<ResponsiveCrood>; index: number; t: number };
+};
+
+type PathStyles = ReturnType<typeof parsePathJSON>['styles'];
+
+type PathLayout = ReturnType<typeof parsePathJSON>['layout'] & { pathOffset: Crood };
+
+export type PathNodeJSON = {
+  id?: string;
+  nodeType?: `${PathNodeType}`;
+  instruction: Instruction;
+};
+
+export type VizPathJSON = {
+  paths: {
+    segment: PathNodeJSON[];
+    layout: PathLayout;
+    styles: PathStyles;
+  }[];
+};
+
 /**
  * VizPath (Visualization Path，可视化路径)
  */
@@ -30,8 +187,12 @@ class VizPath extends BaseEvent<{
   draw: (paths: ResponsivePath[]) => void;
   clear: (paths: ResponsivePath[]) => void;
   update: (path: ResponsivePath) => void;
+  change: () => void;
   clearAll: () => void;
   destroy: () => void;
+  enterEditing: (target: fabric.Object) => void;
+  commit: (result: EditingResult) => void;
+  cancel: (target: fabric.Object) => void;
 }> {
   /**
    * 上下文
@@ -69,6 +230,21 @@ class VizPath extends BaseEvent<{
    */
   private _onceRerenderPaths: Set<fabric.Path> | null = null;
 
+  /**
+   * 合并变更通知的嵌套层数
+   */
+  private _batchDepth = 0;
+
+  /**
+   * 合并期间是否发生过变更
+   */
+  private _batchChanged = false;
+
+  /**
+   * 路径对象初次绘制时的原始样式（编辑器主题会覆盖路径对象本身的样式）
+   */
+  private _originStyles = new WeakMap<fabric.Path, PathStyles>([]);
+
   constructor(context: VizPathCreator) {
     super();
 
@@ -94,18 +270,7 @@ class VizPath extends BaseEvent<{
    * @returns 路径分段
    */
   static getPathSegments(instructions: Instruction[]) {
-    const segments = instructions.reduce(
-      (paths, instruction, idx, arr) => {
-        if (!instruction) return paths;
-        if (instruction[0] === InstructionType.START && paths[paths.length - 1].length)
-          paths.push([]);
-        paths[paths.length - 1].push(instruction);
-        if (instruction[0] === InstructionType.CLOSE && idx !== arr.length - 1) paths.push([]);
-        return paths;
-      },
-      [[]] as Instruction[][],
-    );
-    return segments;
+    return getPathSegments(instructions);
   }
 
   /**
@@ -196,8 +361,15 @@ class VizPath extends BaseEvent<{
       const matrix = [...pathObject.calcOwnMatrix()] as Matrix;
       const matrixWithoutTranslate = [...matrix.slice(0, 4), 0, 0];
       const instructions = segment.map((item) => {
-        const instruction = [...item.instruction];
-        for (let i = 0; i < instruction.length - 1; i += 2) {
+        // 椭圆弧指令的半径和角度等参数只受线性变换影响，终点坐标与其他指令一样处理
+        const isArc = item.instruction[0] === InstructionType.ARC;
+        const instruction = isArc ? transformArc(item.instruction, matrix) : [...item.instruction];
+        if (isArc) {
+          instruction[1] = round(instruction[1] as number, precision);
+          instruction[2] = round(instruction[2] as number, precision);
+          instruction[3] = round(instruction[3] as number, precision);
+        }
+        for (let i = isArc ? instruction.length - 3 : 0; i < instruction.length - 1; i += 2) {
           const point = fabric.util.transformPoint(
             new fabric.Point(instruction[i + 1] as number, instruction[i + 2] as number),
             matrix,
@@ -217,10 +389,349 @@ class VizPath extends BaseEvent<{
 
   /**
    * 提取当前路径的信息
+   *
+   * @param paths 路径列表
+   * @param options 导出配置，传入数字时作为数值精度
+   *
+   * @example
+   *
+   * vizpath.getPathData(vizpath.paths, { relative: true, shorthand: true, minify: true });
+   */
+  getPathData(
+    paths: ResponsivePath[] = this.paths,
+    options: number | Partial<PathDataOptions> = 3,
+  ) {
+    const { precision, relative, shorthand, minify, coordinate } = defaults(
+      typeof options === 'number' ? { precision: options } : { ...options },
+      DEFAULT_PATH_DATA_OPTIONS,
+    );
+
+    const segments =
+      coordinate === 'local'
+        ? paths.map(({ segment }) => segment.map((i) => [...i.instruction] as Instruction))
+        : (this.getPathSegmentsInfo(paths, precision) as Instruction[][]);
+
+    return formatPathData(segments, { precision, relative, shorthand, minify });
+  }
+
+  /**
+   * 测量路径，返回的测量对象可以重复查询长度、点及切线等信息，避免多次查询时重复计算
+   *
+   * @param path 路径
+   * @param coordinate 坐标系，canvas 为经过路径对象变换后的画布坐标，local 为路径对象内的局部坐标
+   *
+   * @example
+   *
+   * const measure = vizpath.measure(vizpath.paths[0]);
+   * const points = [0.25, 0.5, 0.75].map((i) => measure.getPointAtLength(measure.length * i));
+   */
+  measure(path: ResponsivePath, coordinate: PathDataOptions['coordinate'] = 'canvas') {
+    const instructions =
+      coordinate === 'local'
+        ? path.segment.map((i) => i.instruction)
+        : (this.getPathSegmentsInfo([path], 12)[0] as Instruction[]);
+    return measurePath(instructions);
+  }
+
+  /**
+   * 获取路径长度
+   */
+  getLength(path: ResponsivePath, coordinate: PathDataOptions['coordinate'] = 'canvas') {
+    return this.measure(path, coordinate).length;
+  }
+
+  /**
+   * 获取从路径起点出发指定长度处的点，超出路径长度时取端点
+   */
+  getPointAtLength(
+    path: ResponsivePath,
+    length: number,
+    coordinate: PathDataOptions['coordinate'] = 'canvas',
+  ) {
+    return this.measure(path, coordinate).getPointAtLength(length);
+  }
+
+  /**
+   * 获取从路径起点出发指定长度处的单位切线方向
+   */
+  getTangentAtLength(
+    path: ResponsivePath,
+    length: number,
+    coordinate: PathDataOptions['coordinate'] = 'canvas',
+  ) {
+    return this.measure(path, coordinate).getTangentAtLength(length);
+  }
+
+  /**
+   * 获取从路径起点出发指定长度处的单位法线方向，为切线向量 (x, y) 旋转得到的 (-y, x)
+   */
+  getNormalAtLength(
+    path: ResponsivePath,
+    length: number,
+    coordinate: PathDataOptions['coordinate'] = 'canvas',
+  ) {
+    return this.measure(path, coordinate).getNormalAtLength(length);
+  }
+
+  /**
+   * 获取路径节点所在指令的长度
+   */
+  getInstructionLength(
+    pathNode: PathNode<ResponsiveCrood>,
+    coordinate: PathDataOptions['coordinate'] = 'canvas',
+  ) {
+    const path = this.getPath(pathNode.segment);
+    if (!path) return 0;
+    return this.measure(path, coordinate).getInstructionLength(path.segment.indexOf(pathNode));
+  }
+
+  /**
+   * 获取路径节点所在指令上指定参数处的点
+   *
+   * @param pathNode 路径节点
+   * @param t 指令上的参数，取值 0 ~ 1
+   * @param coordinate 坐标系
+   */
+  getInstructionPointAt(
+    pathNode: PathNode<ResponsiveCrood>,
+    t: number,
+    coordinate: PathDataOptions['coordinate'] = 'canvas',
+  ) {
+    const path = this.getPath(pathNode.segment);
+    if (!path) return;
+    return this.measure(path, coordinate).getInstructionPointAt(path.segment.indexOf(pathNode), t);
+  }
+
+  /**
+   * 获取路径节点所在指令上指定参数处的单位切线方向
+   */
+  getInstructionTangentAt(
+    pathNode: PathNode<ResponsiveCrood>,
+    t: number,
+    coordinate: PathDataOptions['coordinate'] = 'canvas',
+  ) {
+    const path = this.getPath(pathNode.segment);
+    if (!path) return;
+    return this.measure(path, coordinate).getInstructionTangentAt(
+      path.segment.indexOf(pathNode),
+      t,
+    );
+  }
+
+  /**
+   * 获取路径节点所在指令上指定参数处的单位法线方向
+   */
+  getInstructionNormalAt(
+    pathNode: PathNode<ResponsiveCrood>,
+    t: number,
+    coordinate: PathDataOptions['coordinate'] = 'canvas',
+  ) {
+    const path = this.getPath(pathNode.segment);
+    if (!path) return;
+    return this.measure(path, coordinate).getInstructionNormalAt(path.segment.indexOf(pathNode), t);
+  }
+
+  /**
+   * 检测画布坐标点附近的路径，返回最近的路径指令及投影点等信息，容差范围内没有路径时返回 undefined
+   *
+   * @param point 画布坐标（已去除画布视口变换），如 calcCanvasCrood(canvas, e.pointer)
+   * @param options 检测配置
+   *
+   * @note 开启节点或曲线变换点检测时，两者独立于轮廓检测，只命中节点或曲线变换点时同样返回结果，路径信息为最近的投影点
+   *
+   * @example
+   *
+   * const result = vizpath.hitTest(calcCanvasCrood(canvas, e.pointer), { tolerance: 4, nodes: true });
+   * if (result?.node) console.log('hover node', result.node.pathNode);
+   */
+  hitTest(point: Crood, options: Partial<HitTestOptions> = {}) {
+    const { tolerance, paths, nodes, curveDots } = defaults(
+      { ...options },
+      { tolerance: 5, paths: this.paths, nodes: false, curveDots: false },
+    );
+
+    let result: HitTestResult | undefined;
+
+    paths.forEach((path) => {
+      const { segment, pathObject } = path;
+      const instructions = this.getPathSegmentsInfo([path], 12)[0] as Instruction[];
+
+      let current: Crood = { x: 0, y: 0 };
+      instructions.forEach((instruction, index) => {
+        const [type] = instruction;
+        if (type === InstructionType.CLOSE) return;
+
+        const curves = getInstructionCurves(current, instruction);
+        current = {
+          x: instruction[instruction.length - 2] as number,
+          y: instruction[instruction.length - 1] as number,
+        };
+
+        curves.forEach((curve, i) => {
+          let projection: Crood & { t: number; d: number };
+          if (curve.length === 2) {
+            const [from, to] = curve;
+            const dx = to.x - from.x;
+            const dy = to.y - from.y;
+            const lengthSquared = dx * dx + dy * dy;
+            const t = lengthSquared
+              ? Math.min(
+                  Math.max(((point.x - from.x) * dx + (point.y - from.y) * dy) / lengthSquared, 0),
+                  1,
+                )
+              : 0;
+            const x = from.x + dx * t;
+            const y = from.y + dy * t;
+            projection = { x, y, t, d: Math.hypot(point.x - x, point.y - y) };
+          } else {
+            const { x, y, t = 0, d = Infinity } = new Bezier(curve).project(point);
+            projection = { x, y, t, d };
+          }
+
+          // 节点及曲线变换点不依赖轮廓命中，先记录最近的投影点，最后再判断是否在容差范围内
+          if (projection.d >= (result?.distance ?? Infinity)) return;
+
+          const matrix = fabric.util.invertTransform(pathObject.calcOwnMatrix());
+          const localPoint = fabric.util.transformPoint(
+            new fabric.Point(projection.x, projection.y),
+            matrix,
+          );
+
+          result = {
+            path,
+            pathNode: segment[index],
+            t: (i + projection.t) / curves.length,
+            distance: projection.d,
+            point: { x: projection.x, y: projection.y },
+            localPoint: {
+              x: localPoint.x + pathObject.pathOffset.x,
+              y: localPoint.y + pathObject.pathOffset.y,
+            },
+          };
+        });
+      });
+    });
+
+    if (!result) return;
+
+    const hit = result;
+    if (!nodes && !curveDots) return hit.distance <= tolerance ? hit : undefined;
+
+    paths.forEach(({ segment, pathObject }) => {
+      const matrix = pathObject.calcOwnMatrix();
+      const getDistance = (crood: Crood) => {
+        const { x, y } = fabric.util.transformPoint(
+          new fabric.Point(crood.x - pathObject.pathOffset.x, crood.y - pathObject.pathOffset.y),
+          matrix,
+        );
+        return Math.hypot(point.x - x, point.y - y);
+      };
+
+      segment.forEach((pathNode) => {
+        if (nodes && pathNode.node) {
+          const distance = getDistance(pathNode.node);
+          if (distance <= tolerance && distance < (hit.node?.distance ?? Infinity)) {
+            hit.node = { pathNode, distance };
+          }
+        }
+
+        if (curveDots && pathNode.curveDots) {
+          (['pre', 'next'] as const).forEach((direction) => {
+            const curveDot = pathNode.curveDots![direction];
+            if (!curveDot) return;
+            const distance = getDistance(curveDot);
+            if (distance <= tolerance && distance < (hit.curveDot?.distance ?? Infinity)) {
+              hit.curveDot = { pathNode, direction, distance };
+            }
+          });
+        }
+      });
+    });
+
+    return hit.distance <= tolerance || hit.node || hit.curveDot ? hit : undefined;
+  }
+
+  /**
+   * 获取两条路径之间的所有交点
+   *
+   * @note 相交计算使用画布坐标，重叠的线段不计算交点
+   *
+   * @example
+   *
+   * vizpath.getIntersections(vizpath.paths[0], vizpath.paths[1]).map((i) => i.point);
+   */
+  getIntersections(path: ResponsivePath, otherPath: ResponsivePath): PathIntersection[] {
+    const [instructions, otherInstructions] = this.getPathSegmentsInfo([path, otherPath], 12);
+    return findIntersections(instructions as Instruction[], otherInstructions as Instruction[]).map(
+      ({ point, a, b }) => ({
+        point,
+        a: { ...a, pathNode: path.segment[a.index] },
+        b: { ...b, pathNode: otherPath.segment[b.index] },
+      }),
+    );
+  }
+
+  /**
+   * 获取路径自身的所有相交点，每个交点中 a 的位置总在 b 之前
+   *
+   * @note 相邻指令在路径节点处的相接不视为相交
+   */
+  getSelfIntersections(path: ResponsivePath): PathIntersection[] {
+    const [instructions] = this.getPathSegmentsInfo([path], 12);
+    return findIntersections(instructions as Instruction[]).map(({ point, a, b }) => ({
+      point,
+      a: { ...a, pathNode: path.segment[a.index] },
+      b: { ...b, pathNode: path.segment[b.index] },
+    }));
+  }
+
+  /**
+   * 通过节点标识获取路径节点
+   */
+  getNodeById(id: string) {
+    for (const { segment } of this.paths) {
+      const pathNode = segment.find((i) => i.id === id);
+      if (pathNode) return pathNode;
+    }
+  }
+
+  /**
+   * 获取路径的原始样式
+   */
+  getPathStyles(pathObject: fabric.Path) {
+    return this._originStyles.get(pathObject) ?? parsePathJSON(pathObject).styles;
+  }
+
+  /**
+   * 导出当前编辑状态，可通过 VizPathCreator.fromJSON 无损还原
+   *
+   * @note 与 getPathData 不同，导出的指令保持路径内的相对坐标，路径的布局和样式单独记录
    */
-  getPathData(paths: ResponsivePath[] = this.paths, precision = 3) {
-    const segments = this.getPathSegmentsInfo(paths, precision);
-    return segments.map((fabric.util as any).joinPath).join(' ');
+  toJSON(paths: ResponsivePath[] = this.paths): VizPathJSON {
+    return {
+      paths: paths.map(({ segment, pathObject }) => {
+        // fabric的toJSON会对数值做精度处理，布局信息需要直接从对象上读取才能保证无损
+        const layout = Object.keys(parsePathJSON(pathObject).layout).reduce(
+          (layout, key) => {
+            layout[key] = pathObject[key];
+            return layout;
+          },
+          {
+            pathOffset: { x: pathObject.pathOffset.x, y: pathObject.pathOffset.y },
+          } as PathLayout,
+        );
+
+        return {
+          segment: segment.map(({ id, nodeType, instruction }) => ({
+            id,
+            nodeType,
+            instruction: cloneDeep(instruction),
+          })),
+          layout,
+          styles: cloneDeep(this.getPathStyles(pathObject)),
+        };
+      }),
+    };
   }
 
   /**
@@ -351,6 +862,9 @@ class VizPath extends BaseEvent<{
     paths.forEach((item) => {
       const drawPath = item as ResponsivePath;
       const { segment, pathObject } = item;
+
+      enableArcRender(pathObject);
+
       segment.forEach((pathNode, index) => {
         const { instruction } = pathNode;
 
@@ -358,6 +872,10 @@ class VizPath extends BaseEvent<{
         const isStartSyncPoint =
           segment[index + 1] && segment[index + 1].instruction?.[0] === InstructionType.CLOSE;
 
+        // 分配节点标识，闭合重叠点与起始点共用同一标识
+        if (isStartSyncPoint && segment[0].id) pathNode.id = segment[0].id;
+        if (!pathNode.id) pathNode.id = uuid();
+
         // 路径节点
         const node = VizPath.getInstructionNodeCrood(instruction);
         if (node && !pathNode.node) {
@@ -473,8 +991,21 @@ class VizPath extends BaseEvent<{
         }
       });
 
+      // 未设置类型的节点根据两侧曲线变换点推断类型，闭合路径起始点的前曲线变换点在上面遍历结束时才确定
+      segment.forEach((pathNode) => {
+        if (!pathNode.node || pathNode.nodeType) return;
+        pathNode.nodeType = inferNodeType(
+          pathNode.node,
+          pathNode.curveDots?.pre,
+          pathNode.curveDots?.next,
+        );
+      });
+
       const index = this.paths.findIndex((i) => i.pathObject === pathObject);
       if (index === -1) {
+        if (!this._originStyles.has(pathObject)) {
+          this._originStyles.set(pathObject, parsePathJSON(pathObject).styles);
+        }
         this.paths.push(drawPath);
       } else {
         pathObject.path = segment.map((i) => i.instruction) as unknown as fabric.Point[];
@@ -486,6 +1017,7 @@ class VizPath extends BaseEvent<{
     });
 
     this.fire('draw', paths as ResponsivePath[]);
+    this._markChanged();
 
     return allDrawPaths;
   }
@@ -510,6 +1042,8 @@ class VizPath extends BaseEvent<{
    * 重新渲染路径，修正路径位置及尺寸，为了性能默认为延迟（防抖）更新
    */
   private _rerenderOriginPath(path: fabric.Path) {
+    this._markChanged();
+
     if (this._onceRerenderPaths) {
       this._onceRerenderPaths.add(path);
       return;
@@ -541,64 +1075,118 @@ class VizPath extends BaseEvent<{
     // 外层设置了一次渲染则直接进行回调即可
     if (this._onceRerenderPaths) return callback();
     this._onceRerenderPaths = new Set([]);
-    const result = callback();
-    const paths = Array.from(this._onceRerenderPaths.values());
-    this._onceRerenderPaths.clear();
-    this._onceRerenderPaths = null;
-    paths.forEach(this._rerenderOriginPath.bind(this));
-    return result;
+    try {
+      return callback();
+    } finally {
+      const paths = Array.from(this._onceRerenderPaths.values());
+      this._onceRerenderPaths.clear();
+      this._onceRerenderPaths = null;
+      paths.forEach(this._rerenderOriginPath.bind(this));
+    }
   }
 
   /**
-   * 使用新的路径信息绘制旧路径，多个路径段则会使原路径拆分成多个
+   * 标记路径发生变更，合并期间只记录，否则直接触发变更事件
    */
-  replacePathSegments(path: ResponsivePath, segments: Instruction[][]) {
-    const { pathObject, segment: oldSegment } = path;
-
-    const newPath = segments.map((segment, index) => {
-      let path = pathObject;
+  private _markChanged() {
+    if (this._batchDepth > 0) {
+      this._batchChanged = true;
+      return;
+    }
+    this.fire('change');
+  }
 
-      if (index > 0) {
-        const { styles, layout } = parsePathJSON(pathObject);
-        path = new fabric.Path(
-          (fabric.util as any).joinPath(pathObject.path as unknown as Instruction[]),
-        );
-        path.set({ ...styles, ...layout });
+  /**
+   * 在回调中执行，过程中的多次变更只会在结束时触发一次变更事件
+   */
+  private _batch<T>(callback: () => T): T {
+    this._batchDepth++;
+    try {
+      return callback();
+    } finally {
+      this._batchDepth--;
+      if (this._batchDepth === 0 && this._batchChanged) {
+        this._batchChanged = false;
+        this.fire('change');
       }
+    }
+  }
 
-      path.path = segment as unknown as fabric.Point[];
-
-      repairPath(path);
+  /**
+   * 以事务的形式执行回调，回调内的多个操作视为一次变更
+   *
+   * @note
+   *
+   * ① 回调内的所有操作只会触发一次变更(change)事件，路径也只会重新渲染一次
+   *
+   * ② 回调抛出异常时，所有路径（包括指令、节点及其响应监听）会回滚到事务开始前的状态，并继续抛出该异常
+   *
+   * ③ 仅支持同步回调
+   *
+   * @example
+   *
+   * vizpath.transaction(() => {
+   *   vizpath.remove(node);
+   *   vizpath.insertAfterNode(pathNode, [InstructionType.LINE, 100, 100]);
+   * });
+   */
+  transaction<T>(callback: () => T): T {
+    const snapshot = this.snapshot();
+    const changed = this._batchChanged;
+
+    return this._batch(() =>
+      this.onceRerenderOriginPath(() => {
+        try {
+          return callback();
+        } catch (error) {
+          this.restore(snapshot);
+          // 回滚后状态与事务前一致，不再视为变更
+          this._batchChanged = changed;
+          throw error;
+        }
+      }),
+    );
+  }
 
-      const _segment: PathNode<ResponsiveCrood>[] = [];
-      segment.forEach((instruction) => {
-        const oldInstruction =
-          index === 0 ? oldSegment.find((i) => i.instruction === instruction) : undefined;
+  /**
+   * 使用新的路径信息绘制旧路径，多个路径段则会使原路径拆分成多个
+   */
+  replacePathSegments(path: ResponsivePath, segments: Instruction[][]) {
+    return this._batch(() => {
+      const { pathObject, segment: oldSegment } = path;
 
-        if (oldInstruction) {
-          oldInstruction.segment = _segment;
+      const newPath = buildSegmentNodes(oldSegment, segments).map((segment, index) => {
+        let path = pathObject;
 
-          delete oldInstruction.node;
-          delete oldInstruction.curveDots;
+        if (index > 0) {
+          const { styles, layout } = parsePathJSON(pathObject);
+          path = new fabric.Path(
+            (fabric.util as any).joinPath(pathObject.path as unknown as Instruction[]),
+          );
+          path.set({ ...styles, ...layout });
+          this._originStyles.set(path, this.getPathStyles(pathObject));
         }
 
-        _segment.push(
-          oldInstruction ?? {
-            segment: _segment,
-            instruction,
-          },
-        );
+        path.path = segments[index] as unknown as fabric.Point[];
+
+        repairPath(path);
+
+        // 复用的路径节点需要重新绘制节点及曲线变换点
+        segment.forEach((pathNode) => {
+          delete pathNode.node;
+          delete pathNode.curveDots;
+        });
+
+        return {
+          segment,
+          pathObject: path,
+        };
       });
 
-      return {
-        segment: _segment,
-        pathObject: path,
-      };
+      const result = this.draw(newPath);
+      this._rerenderOriginPath(pathObject);
+      return result;
     });
-
-    const result = this.draw(newPath);
-    this._rerenderOriginPath(pathObject);
-    return result;
   }
 
   /**
@@ -610,155 +1198,51 @@ class VizPath extends BaseEvent<{
    * ② 有多个删除节点，仅删除节点间的线段，中间节点同时也会被移除
    */
   remove(...targets: ResponsiveCrood[]) {
-    // 找出需要删除的路径和指令索引映射，便于后续同路径下节点的批量操作
-    const segmentIndexMap = targets.reduce((maps, target) => {
-      const pathNode = this.pathNodeMap.get(target) as PathNode<ResponsiveCrood>;
-      if (!pathNode) return maps;
-
-      const { segment, instruction } = pathNode;
-
-      const indexes = maps.get(segment) ?? [];
-
-      const index = segment.findIndex((i) => i.instruction === instruction);
-
-      indexes.push(index);
-
-      maps.set(segment, indexes);
-
-      return maps;
-    }, new Map<PathNode<ResponsiveCrood>[], number[]>([]));
-
-    const needRemoveSegments = Array.from(segmentIndexMap).map((item) => {
-      const [segment, indexes] = item;
-
-      indexes.sort();
+    return this._batch(() => {
+      // 找出需要删除的路径和指令索引映射，便于后续同路径下节点的批量操作
+      const segmentIndexMap = targets.reduce((maps, target) => {
+        const pathNode = this.pathNodeMap.get(target) as PathNode<ResponsiveCrood>;
+        if (!pathNode) return maps;
 
-      const isMultipleRemove = indexes.length > 1;
-      const isIncludeStartNode = indexes[0] === 0;
-      const isClosePath = segment[segment.length - 1].instruction[0] === InstructionType.CLOSE;
-      if (isMultipleRemove && isIncludeStartNode && isClosePath) indexes.push(segment.length - 2);
+        const { segment, instruction } = pathNode;
 
-      return item;
-    });
-
-    const segments = needRemoveSegments.map(([segment, indexes]) => {
-      const path = this.getPath(segment)!;
-      const pathObject = path.pathObject;
+        const indexes = maps.get(segment) ?? [];
 
-      let isClosePath = this.isClosePath(segment);
+        const index = segment.findIndex((i) => i.instruction === instruction);
 
-      // 先替换掉路径信息，避免被修改到
-      pathObject.path = cloneDeep(segment.map((i) => i.instruction)) as any;
+        indexes.push(index);
 
-      // 如果路径所有点都在删除列表列表中，直接移除整个路径
-      const isWholePath =
-        indexes.length === segment.length || (isClosePath && indexes.length === segment.length - 1);
-      if (isWholePath) return { path, segment: [] };
+        maps.set(segment, indexes);
 
-      /**
-       * 删除单节点时
-       */
-      const removeSingleNode = (index: number) => {
-        const _segments: Instruction[][] = [segment.map((i) => i.instruction)];
+        return maps;
+      }, new Map<PathNode<ResponsiveCrood>[], number[]>([]));
 
-        const instructions = _segments[0];
+      const segments = Array.from(segmentIndexMap).map(([segment, indexes]) => {
+        const path = this.getPath(segment)!;
 
-        const pre = instructions.slice(0, index);
-        const next = instructions.slice(index);
-
-        if (isClosePath) {
-          pre.shift();
-          next.pop();
-          if (next[0][0] === InstructionType.START) next.pop();
-        }
+        // 先替换掉路径信息，避免被修改到
+        path.pathObject.path = cloneDeep(segment.map((i) => i.instruction)) as any;
 
-        next.shift();
-        next[0]?.splice(0, next[0].length, InstructionType.START, ...next[0].slice(-2));
+        return {
+          path,
+          segment: removeSegmentNodes(
+            segment.map((i) => i.instruction),
+            indexes,
+          ),
+        };
+      });
 
-        _segments.shift();
-        if (isClosePath) {
-          next.push(...pre);
-          pre.length = 0;
+      segments.forEach((i) => {
+        if (i.segment.length) {
+          this.replacePathSegments(i.path, i.segment);
         } else {
-          if (pre.length > 0 && next[0]) next[0][0] = InstructionType.LINE;
-          pre.push(...next);
-          next.length = 0;
-        }
-
-        if (next.length >= 1) _segments.unshift(next);
-        if (pre.length >= 1) _segments.unshift(pre);
-
-        // 如果原本是闭合路径，且剩余节点多于1个，保留闭合状态
-        if (isClosePath && _segments[0].length > 1) {
-          _segments[0].push([InstructionType.LINE, ..._segments[0][0].slice(-2)] as Instruction, [
-            InstructionType.CLOSE,
-          ]);
+          this.clear(i.path.pathObject);
         }
+      });
 
-        return _segments;
-      };
-
-      /**
-       * 删除多节点
-       */
-      const removeMulitpleNodes = (indexes: number[]) => {
-        // 需要克隆出新的指令列表不然会影响到pathObject
-        const _segments: Instruction[][] = [segment.map((i) => i.instruction)];
-
-        const removeIndexes =
-          indexes.length <= 1
-            ? indexes
-            : indexes.filter(
-                (i, idx, arr) => arr.length <= 1 || (idx >= 1 && arr[idx - 1] + 1 === i),
-              );
-
-        for (let i = removeIndexes.length - 1, startIndex = 0; i >= 0; i--) {
-          const instructions = _segments[0];
-          const index = startIndex + removeIndexes[i];
-
-          const pre = instructions.slice(0, index);
-          const next = instructions.slice(index);
-
-          if (isClosePath) {
-            pre.shift();
-            next.pop();
-            if (next[0][0] === InstructionType.START) next.pop();
-          }
-
-          next[0]?.splice(0, next[0].length, InstructionType.START, ...next[0].slice(-2));
-
-          _segments.shift();
-          if (isClosePath) {
-            startIndex = next.length - 1;
-            next.push(...pre);
-            pre.length = 0;
-          }
-
-          if (next.length > 1) _segments.unshift(next);
-          if (pre.length > 1) _segments.unshift(pre);
-
-          isClosePath = false;
-        }
-
-        return _segments;
-      };
-
-      return {
-        path,
-        segment: indexes.length === 1 ? removeSingleNode(indexes[0]) : removeMulitpleNodes(indexes),
-      };
-    });
-
-    segments.forEach((i) => {
-      if (i.segment.length) {
-        this.replacePathSegments(i.path, i.segment);
-      } else {
-        this.clear(i.path.pathObject);
-      }
-    });
-
-    segmentIndexMap.clear();
-  }
+      segmentIndexMap.clear();
+    });
+  }
 
   /**
    * 新增路径指令
@@ -822,51 +1306,88 @@ class VizPath extends BaseEvent<{
   replace(pathNode: PathNode<ResponsiveCrood>, instruction: Instruction) {
     const segment = pathNode.segment;
 
-    let index = segment.indexOf(pathNode);
-    if (index === -1) return;
-    if (this.isClosePath(segment) && index === segment.length - 2) index = 0;
-
-    const updateCommands: {
-      type: 'add' | 'update';
-      index: number;
-      instruction: Instruction;
-    }[] = [];
-
-    if (index === 0) {
-      const newStartInstruction = [
-        InstructionType.START,
-        ...(instruction.slice(-2) as number[]),
-      ] as Instruction;
+    if (segment.indexOf(pathNode) === -1) return;
 
-      updateCommands.push({
-        type: 'update',
-        index: 0,
-        instruction: newStartInstruction,
-      });
-
-      if (this.isClosePath(segment)) {
-        updateCommands.push({
-          type: 'update',
-          index: segment.length - 2,
-          instruction,
-        });
-      }
-    } else {
-      updateCommands.push({
-        type: 'update',
-        index,
-        instruction,
-      });
-    }
+    const { index, commands } = getReplaceCommands(
+      segment.map((i) => i.instruction),
+      segment.indexOf(pathNode),
+      instruction,
+    );
 
     const newPath = this._updatePathByCommands(
       this.paths.find((i) => i.segment === segment)!,
-      updateCommands,
+      commands,
     );
 
     return newPath[0].segment[index];
   }
 
+  /**
+   * 更新椭圆弧指令的半径、旋转角度等参数，终点仍由路径节点控制
+   *
+   * @param pathNode 椭圆弧指令所在的路径节点
+   * @param params 椭圆弧参数，未传入的参数保持不变
+   */
+  updateArc(
+    pathNode: PathNode,
+    params: Partial<{
+      rx: number;
+      ry: number;
+      rotation: number;
+      largeArc: 0 | 1;
+      sweep: 0 | 1;
+    }>,
+  ) {
+    const { instruction } = pathNode;
+    if (instruction[0] !== InstructionType.ARC) return;
+
+    const path = this.getPath(pathNode.segment);
+    if (!path) return;
+
+    const {
+      rx = instruction[1],
+      ry = instruction[2],
+      rotation = instruction[3],
+      largeArc = instruction[4],
+      sweep = instruction[5],
+    } = params;
+    instruction.splice(1, 5, rx, ry, rotation, largeArc, sweep);
+
+    this._rerenderOriginPath(path.pathObject);
+  }
+
+  /**
+   * 设置路径节点类型
+   *
+   * @param pathNode 路径节点
+   * @param nodeType 节点类型
+   *
+   * @note 平滑及对称节点会以前曲线变换点为准调整后曲线变换点，使两侧共线，对称节点还会使两侧等长
+   */
+  setNodeType(pathNode: PathNode<ResponsiveCrood>, nodeType: `${PathNodeType}`) {
+    const { node, curveDots } = pathNode;
+    if (!node || !this.getPath(pathNode.segment)) return;
+
+    this._batch(() => {
+      pathNode.nodeType = nodeType;
+      this._markChanged();
+
+      const pre = curveDots?.pre;
+      const next = curveDots?.next;
+      if (nodeType === PathNodeType.CORNER || !pre || !next) return;
+
+      const preLength = calcCroodsDistance(pre, node);
+      if (!preLength) return;
+
+      const nextLength =
+        nodeType === PathNodeType.SYMMETRIC ? preLength : calcCroodsDistance(next, node);
+      next.setCrood({
+        x: node.x - ((pre.x - node.x) / preLength) * nextLength,
+        y: node.y - ((pre.y - node.y) / preLength) * nextLength,
+      });
+    });
+  }
+
   /**
    * 闭合路径
    */
@@ -874,89 +1395,657 @@ class VizPath extends BaseEvent<{
     const path = this.getPath(pathNode.segment);
     if (!path) return;
 
-    // 自闭合的路径无需再做闭合处理
-    if (this.isClosePath(path.segment)) return;
+    const commands = getCloseCommands(path.segment.map((i) => i.instruction));
+    if (commands.length) this._updatePathByCommands(path, commands);
+  }
 
-    // 少于2个节点时无法实现闭合
-    if (path.segment.length < 2) return;
+  /**
+   * 通过更新命令更新路径
+   * @param target
+   * @param instruction
+   */
+  private _updatePathByCommands(path: ResponsivePath, commands: SegmentUpdateCommand[]) {
+    return this._batch(() => {
+      updateSegmentNodes(path.segment, commands, (pathNode) => {
+        if (pathNode.node) {
+          this.pathNodeMap.delete(pathNode.node);
+          this._observers.delete(pathNode.node);
+          if (pathNode.curveDots?.pre) this._observers.delete(pathNode.curveDots.pre);
+          if (pathNode.curveDots?.next) this._observers.delete(pathNode.curveDots.next);
+        }
 
-    const updateCommands: {
-      type: 'add' | 'update';
-      index: number;
-      instruction: Instruction;
-    }[] = [];
+        delete pathNode.node;
+        delete pathNode.curveDots;
+      });
 
-    const startNode = path.segment[0].node!;
-    const endNode = path.segment[path.segment.length - 1].node!;
+      return this.draw([path]);
+    });
+  }
 
-    // 需要考虑添加闭合重叠点
-    if (startNode.x !== endNode.x || startNode.y !== endNode.y) {
-      updateCommands.push({
-        type: 'add',
-        index: path.segment.length,
-        instruction: [InstructionType.LINE, startNode.x, startNode.y],
-      });
-    }
+  /**
+   * 路径布尔运算，运算结果会替换第一个路径，其余参与运算的路径会被清除
+   *
+   * @param operation 运算类型，union 并集、intersection 交集、difference 差集、exclusion 排除、divide 分割
+   * @param paths 参与运算的路径，默认为当前所有路径，差集运算为第一个路径减去其余路径
+   *
+   * @note 运算会考虑各路径对象自身的变换及填充规则
+   *
+   * @example
+   *
+   * vizpath.boolean('union', [vizpath.paths[0], vizpath.paths[1]]);
+   */
+  boolean(operation: BooleanOperation, paths: ResponsivePath[] = this.paths) {
+    const [target, ...others] = paths;
+    if (!target) return [];
 
-    updateCommands.push({
-      type: 'add',
-      index: path.segment.length + updateCommands.length,
-      instruction: [InstructionType.CLOSE],
+    // 统一转为画布坐标进行计算
+    const operands = this.getPathSegmentsInfo(paths, 12).map((instructions, index) => {
+      const { pathObject } = paths[index];
+      return {
+        segments: [convertArcToCubic(instructions as Instruction[])],
+        fillRule: this.getPathStyles(pathObject).fillRule ?? pathObject.fillRule,
+      };
     });
 
-    this._updatePathByCommands(path, updateCommands);
+    // 计算结果转回目标路径对象的局部坐标
+    const { pathObject } = target;
+    const matrix = fabric.util.invertTransform(pathObject.calcOwnMatrix());
+    const segments = booleanPath(operation, operands).map((segment) =>
+      segment.map((instruction) => {
+        const [type, ...croods] = instruction;
+        for (let i = 0; i < croods.length; i += 2) {
+          const point = fabric.util.transformPoint(
+            new fabric.Point(croods[i], croods[i + 1]),
+            matrix,
+          );
+          croods[i] = point.x + pathObject.pathOffset.x;
+          croods[i + 1] = point.y + pathObject.pathOffset.y;
+        }
+        return [type, ...croods] as Instruction;
+      }),
+    );
+
+    return this.transaction(() => {
+      others.forEach((path) => this.clear(path.segment));
+
+      if (!segments.length) {
+        this.clear(target.segment);
+        return [];
+      }
+
+      return this.replacePathSegments(target, segments);
+    });
   }
 
   /**
-   * 通过更新命令更新路径
-   * @param target
-   * @param instruction
+   * 将路径的描边转换为填充轮廓，轮廓作为新的路径绘制
+   *
+   * @param path 路径
+   *
+   * @returns 轮廓路径，填充色沿用原路径的描边色，路径没有描边时返回空列表
+   *
+   * @note 按原路径的描边宽度、转角连接方式、端点样式及尖角长度限制生成，虚线描边按实线处理
+   *
+   * @example
+   *
+   * vizpath.outlineStroke(vizpath.paths[0]);
    */
-  private _updatePathByCommands(
+  outlineStroke(path: ResponsivePath) {
+    const { segment, pathObject } = path;
+    const styles = this.getPathStyles(pathObject);
+    if (!styles.stroke || !styles.strokeWidth) return [];
+
+    const segments = outlineStroke([segment.map((i) => i.instruction)], {
+      width: styles.strokeWidth,
+      lineJoin: styles.strokeLineJoin as 'miter' | 'round' | 'bevel',
+      lineCap: styles.strokeLineCap as 'butt' | 'round' | 'square',
+      miterLimit: styles.strokeMiterLimit,
+    });
+
+    return this._drawDerivedPaths(path, segments, {
+      fill: styles.stroke,
+      stroke: undefined,
+      strokeWidth: 0,
+      strokeDashArray: undefined,
+      fillRule: 'nonzero',
+    });
+  }
+
+  /**
+   * 将路径的填充区域向外扩展或向内收缩指定距离，偏移结果作为新的路径绘制
+   *
+   * @param path 路径
+   * @param distance 偏移距离，使用路径内的坐标单位，正数向外扩展（如出血），负数向内收缩
+   * @param options 转角连接方式及尖角长度限制
+   *
+   * @note 未闭合的路径按闭合处理，收缩距离过大时区域可能消失，此时返回空列表
+   *
+   * @example
+   *
+   * vizpath.offset(vizpath.paths[0], 3, { lineJoin: 'round' });
+   */
+  offset(
     path: ResponsivePath,
-    queue: {
-      type: 'add' | 'update';
-      index: number;
-      instruction: Instruction;
-    }[],
+    distance: number,
+    options: Partial<{
+      lineJoin: 'miter' | 'round' | 'bevel';
+      miterLimit: number;
+    }> = {},
   ) {
+    const { segment, pathObject } = path;
+    const styles = this.getPathStyles(pathObject);
+
+    const segments = offsetPath([segment.map((i) => i.instruction)], distance, {
+      lineJoin: 'miter',
+      miterLimit: styles.strokeMiterLimit,
+      ...options,
+      fillRule: styles.fillRule ?? pathObject.fillRule,
+    });
+
+    return this._drawDerivedPaths(path, segments, { fillRule: 'nonzero' });
+  }
+
+  /**
+   * 以原路径的布局及样式绘制新的路径，每个子路径对应一个新的路径对象
+   */
+  private _drawDerivedPaths(
+    source: ResponsivePath,
+    segments: Instruction[][],
+    styles: Partial<PathStyles> = {},
+  ) {
+    if (!segments.length) return [];
+
+    const { pathObject } = source;
+    const { styles: currentStyles, layout } = parsePathJSON(pathObject);
+
+    const paths: Path = segments.map((instructions) => {
+      // 沿用原路径的布局，使新路径的指令坐标与原路径处于同一坐标系
+      const path = new fabric.Path(
+        (fabric.util as any).joinPath(pathObject.path as unknown as Instruction[]),
+      );
+      path.set({ ...currentStyles, ...layout, ...styles });
+      this._originStyles.set(path, { ...this.getPathStyles(pathObject), ...styles });
+
+      path.path = instructions as unknown as fabric.Point[];
+      repairPath(path);
+
+      const segment: PathNode[] = [];
+      instructions.forEach((instruction) => {
+        segment.push({ segment, instruction });
+      });
+
+      return { segment, pathObject: path };
+    });
+
+    return this.transaction(() => this.draw(paths));
+  }
+
+  /**
+   * 简化路径，移除多余的路径节点并重新拟合三阶贝塞尔曲线，简化后的路径与原路径的误差不超过容差
+   *
+   * @param path 路径
+   * @param tolerance 容差距离，使用路径内的坐标单位
+   * @param pathNodes 简化范围，只有范围内连续的路径节点之间的路径会被简化，默认为整条路径
+   *
+   * @note 转角明显的节点会被保留，范围两端的节点位置保持不变
+   *
+   * @example
+   *
+   * vizpath.simplify(vizpath.paths[0], 0.5);
+   */
+  simplify(path: ResponsivePath, tolerance = 1, pathNodes: PathNode[] = path.segment) {
     const { segment } = path;
+    const isClosePath = this.isClosePath(segment);
+    const lastIndex = segment.length - (isClosePath ? 2 : 1);
+
+    // 闭合重叠点与起始点为同一节点
+    const isSelected = (index: number) =>
+      pathNodes.includes(segment[index]) ||
+      (isClosePath && index === lastIndex && pathNodes.includes(segment[0]));
+
+    // 找出所有连续选中的节点区间
+    const ranges: [start: number, end: number][] = [];
+    let start = -1;
+    for (let i = 0; i <= lastIndex + 1; i++) {
+      if (i <= lastIndex && isSelected(i)) {
+        if (start === -1) start = i;
+        continue;
+      }
+      if (start !== -1 && i - 1 - start >= 2) ranges.push([start, i - 1]);
+      start = -1;
+    }
 
-    queue.sort((a, b) => b.index - a.index);
+    const results = ranges
+      .map(([start, end]) => ({
+        start,
+        end,
+        fitted: this._fitSegmentRange(segment, start, end, tolerance),
+      }))
+      .filter((i) => i.fitted);
+    if (!results.length) return [path];
+
+    return this.transaction(() => {
+      // 组的终点为原有节点，复用其指令对象
+      results.forEach(({ fitted }) => {
+        fitted!.reuses.forEach(([index, reuseInstruction]) => {
+          reuseInstruction.splice(0, reuseInstruction.length, ...fitted!.instructions[index]);
+          fitted!.instructions[index] = reuseInstruction;
+        });
+      });
 
-    queue.forEach(({ type, index, instruction }) => {
-      if (type === 'add') {
-        // 改变原来的起始点指令类型
-        if (index === 0 && segment.length) {
-          segment.splice(0, 1, {
-            segment,
-            instruction: [InstructionType.LINE, segment[0].node!.x, segment[0].node!.y],
-          });
+      const instructions: Instruction[] = [];
+      segment.forEach(({ instruction }, index) => {
+        const result = results.find((i) => index > i.start && index <= i.end);
+        if (!result) {
+          instructions.push(instruction);
+        } else if (index === result.end) {
+          instructions.push(...result.fitted!.instructions);
         }
-        segment.splice(index, 0, {
-          segment,
-          instruction,
-        });
-      }
+      });
 
-      if (type === 'update') {
-        const pathNode = segment[index];
+      return this.replacePathSegments(path, [instructions]);
+    });
+  }
 
-        if (pathNode.node) {
-          this.pathNodeMap.delete(pathNode.node);
-          this._observers.delete(pathNode.node);
-          if (pathNode.curveDots?.pre) this._observers.delete(pathNode.curveDots.pre);
-          if (pathNode.curveDots?.next) this._observers.delete(pathNode.curveDots.next);
+  /**
+   * 重新拟合路径节点区间内的指令，结果并不比原指令更简洁时返回 undefined
+   *
+   * @returns instructions 拟合后的新指令，reuses 各组终点在新指令中的索引及其需要复用的原指令对象
+   *
+   * @note 不会修改原指令，区间内保留的节点由调用方复用原指令对象，使其路径节点在重绘后保持不变
+   */
+  private _fitSegmentRange(segment: PathNode[], start: number, end: number, tolerance: number) {
+    // 转角阈值，超过该角度的节点视为转角节点保留
+    const CORNER_ANGLE = 30;
+
+    const getEndPoint = (index: number) => {
+      const { instruction } = segment[index];
+      return {
+        x: instruction[instruction.length - 2] as number,
+        y: instruction[instruction.length - 1] as number,
+      };
+    };
+
+    const items = Array.from({ length: end - start }).map((_, i) => {
+      const index = start + i + 1;
+      const curves = getInstructionCurves(getEndPoint(index - 1), segment[index].instruction);
+      const firstCurve = curves[0];
+      const lastCurve = curves[curves.length - 1];
+      const head = firstCurve.find((i) => i.x !== firstCurve[0].x || i.y !== firstCurve[0].y);
+      const tail = [...lastCurve]
+        .reverse()
+        .find(
+          (i) =>
+            i.x !== lastCurve[lastCurve.length - 1].x || i.y !== lastCurve[lastCurve.length - 1].y,
+        );
+
+      // 采样点，直线只取端点，曲线按容差密度取点
+      const points: Crood[] = [];
+      curves.forEach((curve) => {
+        if (curve.length === 2) {
+          points.push(curve[1]);
+          return;
         }
+        const bezier = new Bezier(curve);
+        const steps = Math.min(
+          Math.max(Math.ceil(bezier.length() / Math.max(tolerance, 0.5)), 4),
+          50,
+        );
+        for (let j = 1; j <= steps; j++) points.push(bezier.get(j / steps));
+      });
 
-        pathNode.instruction = instruction;
+      return {
+        index,
+        isLine: curves.every((curve) => curve.length === 2),
+        points,
+        startTangent: head ? { x: head.x - firstCurve[0].x, y: head.y - firstCurve[0].y } : null,
+        endTangent: tail
+          ? {
+              x: lastCurve[lastCurve.length - 1].x - tail.x,
+              y: lastCurve[lastCurve.length - 1].y - tail.y,
+            }
+          : null,
+      };
+    });
 
-        delete pathNode.node;
-        delete pathNode.curveDots;
+    // 按转角节点拆分为多组分别拟合
+    const groups: (typeof items)[] = [[]];
+    items.forEach((item, i) => {
+      groups[groups.length - 1].push(item);
+      const next = items[i + 1];
+      if (!next) return;
+      const { endTangent } = item;
+      const { startTangent } = next;
+      const angle =
+        endTangent && startTangent
+          ? (Math.abs(
+              Math.atan2(
+                endTangent.x * startTangent.y - endTangent.y * startTangent.x,
+                endTangent.x * startTangent.x + endTangent.y * startTangent.y,
+              ),
+            ) *
+              180) /
+            Math.PI
+          : 180;
+      if (angle > CORNER_ANGLE) groups.push([]);
+    });
+
+    const instructions: Instruction[] = [];
+    const reuses: [index: number, instruction: Instruction][] = [];
+    groups.forEach((group) => {
+      const from = getEndPoint(group[0].index - 1);
+      const to = getEndPoint(group[group.length - 1].index);
+      const points = [from, ...group.map((i) => i.points).flat(1)];
+
+      // 近似直线的直线组合并为一条直线
+      const chord = { x: to.x - from.x, y: to.y - from.y };
+      const chordLength = Math.hypot(chord.x, chord.y);
+      const isStraight =
+        group.every((i) => i.isLine) &&
+        chordLength > 0 &&
+        points.every(
+          (point) =>
+            Math.abs(chord.x * (point.y - from.y) - chord.y * (point.x - from.x)) / chordLength <=
+            tolerance,
+        );
+
+      const newInstructions: Instruction[] = isStraight
+        ? [[InstructionType.LINE, to.x, to.y]]
+        : fitCurve(
+            points,
+            tolerance,
+            group[0].startTangent ?? undefined,
+            group[group.length - 1].endTangent
+              ? {
+                  x: -group[group.length - 1].endTangent!.x,
+                  y: -group[group.length - 1].endTangent!.y,
+                }
+              : undefined,
+          ).map(
+            ([, c1, c2, p]) =>
+              [InstructionType.BEZIER_CURVE, c1.x, c1.y, c2.x, c2.y, p.x, p.y] as Instruction,
+          );
+
+      const lastInstruction = newInstructions[newInstructions.length - 1];
+      lastInstruction[lastInstruction.length - 2] = to.x;
+      lastInstruction[lastInstruction.length - 1] = to.y;
+
+      instructions.push(...newInstructions);
+      reuses.push([instructions.length - 1, segment[group[group.length - 1].index].instruction]);
+    });
+
+    if (instructions.length >= end - start) return;
+
+    return { instructions, reuses };
+  }
+
+  /**
+   * 平滑路径节点，为节点生成切线连续的三阶贝塞尔曲线控制点
+   *
+   * @param path 路径
+   * @param pathNodes 需要平滑的路径节点，默认为整条路径
+   * @param tension 张力，取值 0 ~ 1，0 时近似 Catmull-Rom 样条，越大控制点越短，为 1 时退化为折线
+   *
+   * @note
+   *
+   * ① 与平滑节点相连的直线、二阶曲线、椭圆弧会转为三阶贝塞尔曲线，未选中一侧的控制点保持原有切线方向
+   * ② 非闭合路径的端点只有一侧控制点，其方向指向相邻曲线的控制点
+   *
+   * @example
+   *
+   * vizpath.smooth(vizpath.paths[0], vizpath.paths[0].segment, 0.2);
+   */
+  smooth(path: ResponsivePath, pathNodes: PathNode[] = path.segment, tension = 0) {
+    const { segment } = path;
+    const isClosePath = this.isClosePath(segment);
+    const lastIndex = segment.length - (isClosePath ? 2 : 1);
+    if (lastIndex < 1) return [path];
+
+    const ratio = (1 - Math.min(Math.max(tension, 0), 1)) / 3;
+
+    const getPoint = (index: number) => {
+      const { instruction } = segment[index];
+      return {
+        x: instruction[instruction.length - 2] as number,
+        y: instruction[instruction.length - 1] as number,
+      };
+    };
+    const normalize = (crood: Crood) => {
+      const length = Math.hypot(crood.x, crood.y);
+      return length ? { x: crood.x / length, y: crood.y / length } : crood;
+    };
+
+    // 闭合重叠点与起始点为同一节点，统一使用起始点的索引
+    const selected = new Set<number>();
+    pathNodes.forEach((pathNode) => {
+      const index = segment.indexOf(pathNode as PathNode<ResponsiveCrood>);
+      if (index === -1 || !pathNode.node) return;
+      selected.add(isClosePath && index === lastIndex ? 0 : index);
+    });
+    if (!selected.size) return [path];
+
+    // 椭圆弧沿端点的真实切线方向生成控制点，控制点长度按圆弧的三阶贝塞尔曲线近似计算
+    const getArcControl = (point: Crood, other: Crood, control: Crood) => {
+      const chord = Math.hypot(other.x - point.x, other.y - point.y);
+      const direction = normalize({ x: control.x - point.x, y: control.y - point.y });
+      if (!direction.x && !direction.y) {
+        return { x: point.x + (other.x - point.x) / 3, y: point.y + (other.y - point.y) / 3 };
+      }
+
+      // 切线与弦的夹角为圆心角的一半，夹角为0时退化为弦长三等分点
+      const cos = chord
+        ? (direction.x * (other.x - point.x) + direction.y * (other.y - point.y)) / chord
+        : 0;
+      const length = cos > -1 ? (chord * 2) / (3 * (1 + cos)) : chord / 3;
+      return { x: point.x + direction.x * length, y: point.y + direction.y * length };
+    };
+
+    // 各指令原有的两个控制点，直线取弦长三等分点
+    const controls = new Map<number, [Crood, Crood]>();
+    for (let i = 1; i <= lastIndex; i++) {
+      const from = getPoint(i - 1);
+      const to = getPoint(i);
+      const { instruction } = segment[i];
+      const croods: number[] = instruction.slice(1) as number[];
+      switch (instruction[0]) {
+        case InstructionType.BEZIER_CURVE:
+          controls.set(i, [
+            { x: croods[0], y: croods[1] },
+            { x: croods[2], y: croods[3] },
+          ]);
+          break;
+        case InstructionType.QUADRATIC_CURCE:
+          controls.set(i, [
+            {
+              x: from.x + ((croods[0] - from.x) * 2) / 3,
+              y: from.y + ((croods[1] - from.y) * 2) / 3,
+            },
+            { x: to.x + ((croods[0] - to.x) * 2) / 3, y: to.y + ((croods[1] - to.y) * 2) / 3 },
+          ]);
+          break;
+        case InstructionType.ARC: {
+          const curves = convertArcToCubic([
+            [InstructionType.START, from.x, from.y],
+            instruction,
+          ]).slice(1);
+          const first = curves[0];
+          const last = curves[curves.length - 1];
+          if (first?.[0] === InstructionType.BEZIER_CURVE) {
+            controls.set(i, [
+              getArcControl(from, to, { x: first[1], y: first[2] }),
+              getArcControl(to, from, { x: last[3] as number, y: last[4] as number }),
+            ]);
+            break;
+          }
+          // 半径为0的椭圆弧按直线处理
+          // falls through
+        }
+        default:
+          controls.set(i, [
+            { x: from.x + (to.x - from.x) / 3, y: from.y + (to.y - from.y) / 3 },
+            { x: to.x + (from.x - to.x) / 3, y: to.y + (from.y - to.y) / 3 },
+          ]);
+          break;
       }
+    }
+
+    // 节点的前后指令索引
+    const getPreIndex = (index: number) => (index === 0 ? (isClosePath ? lastIndex : -1) : index);
+    const getNextIndex = (index: number) => (index < lastIndex ? index + 1 : isClosePath ? 1 : -1);
+
+    // 先计算两侧都有相邻节点的平滑节点，端点依赖相邻曲线的控制点
+    const terminals: number[] = [];
+    selected.forEach((index) => {
+      const preIndex = getPreIndex(index);
+      const nextIndex = getNextIndex(index);
+      if (preIndex === -1 || nextIndex === -1) {
+        terminals.push(index);
+        return;
+      }
+
+      const point = getPoint(index);
+      const prePoint = getPoint(preIndex - 1);
+      const nextPoint = getPoint(nextIndex);
+      const preVector = { x: point.x - prePoint.x, y: point.y - prePoint.y };
+      const nextVector = { x: nextPoint.x - point.x, y: nextPoint.y - point.y };
+      const preDirection = normalize(preVector);
+      const nextDirection = normalize(nextVector);
+
+      // 切线方向取前后线段方向的角平分线，节点来回折返时沿用后一线段方向
+      let tangent = normalize({
+        x: preDirection.x + nextDirection.x,
+        y: preDirection.y + nextDirection.y,
+      });
+      if (!tangent.x && !tangent.y)
+        tangent = nextDirection.x || nextDirection.y ? nextDirection : preDirection;
+
+      const preLength = Math.hypot(preVector.x, preVector.y) * ratio;
+      const nextLength = Math.hypot(nextVector.x, nextVector.y) * ratio;
+      controls.get(preIndex)![1] = {
+        x: point.x - tangent.x * preLength,
+        y: point.y - tangent.y * preLength,
+      };
+      controls.get(nextIndex)![0] = {
+        x: point.x + tangent.x * nextLength,
+        y: point.y + tangent.y * nextLength,
+      };
     });
 
-    return this.draw([path]);
+    terminals.forEach((index) => {
+      const isStart = getPreIndex(index) === -1;
+      const instructionIndex = isStart ? getNextIndex(index) : getPreIndex(index);
+      if (instructionIndex === -1) return;
+
+      const point = getPoint(index);
+      const neighbor = getPoint(isStart ? instructionIndex : instructionIndex - 1);
+      const target = controls.get(instructionIndex)![isStart ? 1 : 0];
+      const direction = normalize({ x: target.x - point.x, y: target.y - point.y });
+      const length = Math.hypot(neighbor.x - point.x, neighbor.y - point.y) * ratio;
+      controls.get(instructionIndex)![isStart ? 0 : 1] = {
+        x: point.x + direction.x * length,
+        y: point.y + direction.y * length,
+      };
+    });
+
+    return this.transaction(() => {
+      // 复用原指令对象，使路径节点在重绘后保持不变
+      segment.forEach(({ instruction }, index) => {
+        if (index === 0 || index > lastIndex) return;
+        if (
+          !selected.has(index === lastIndex && isClosePath ? 0 : index) &&
+          !selected.has(index - 1)
+        )
+          return;
+
+        const [c1, c2] = controls.get(index)!;
+        const point = getPoint(index);
+        instruction.splice(
+          0,
+          instruction.length,
+          InstructionType.BEZIER_CURVE,
+          c1.x,
+          c1.y,
+          c2.x,
+          c2.y,
+          point.x,
+          point.y,
+        );
+      });
+
+      return this.replacePathSegments(path, [segment.map((pathNode) => pathNode.instruction)]);
+    });
+  }
+
+  /**
+   * 将路径合并为组合路径写回目标路径对象
+   *
+   * @param target 目标路径对象
+   * @param paths 写回的路径，默认为所有路径
+   *
+   * @returns 是否写回成功，没有可写回的指令时目标路径对象保持不变
+   *
+   * @note 目标对象的位置、缩放、旋转、斜切、翻转及描边等属性保持不变，路径在画布上的位置与编辑时一致
+   *
+   * @example
+   *
+   * vizpath.writeTo(fabricPath);
+   */
+  writeTo(target: fabric.Path, paths: ResponsivePath[] = this.paths) {
+    const targetMatrix = fabric.util.invertTransform(target.calcTransformMatrix());
+
+    const instructions: Instruction[] = [];
+    paths.forEach(({ segment, pathObject }) => {
+      // 从路径对象的局部坐标转换到目标对象的局部坐标
+      const matrix = fabric.util.multiplyTransformMatrices(
+        targetMatrix,
+        pathObject.calcTransformMatrix(),
+      );
+      segment.forEach(({ instruction }) => {
+        const isArc = instruction[0] === InstructionType.ARC;
+        const _instruction = isArc ? transformArc(instruction, matrix) : [...instruction];
+        for (let i = isArc ? _instruction.length - 3 : 0; i < _instruction.length - 1; i += 2) {
+          const point = fabric.util.transformPoint(
+            new fabric.Point(
+              (_instruction[i + 1] as number) - pathObject.pathOffset.x,
+              (_instruction[i + 2] as number) - pathObject.pathOffset.y,
+            ),
+            matrix,
+          );
+          _instruction[i + 1] = point.x + target.pathOffset.x;
+          _instruction[i + 2] = point.y + target.pathOffset.y;
+        }
+        instructions.push(_instruction as Instruction);
+      });
+    });
+
+    if (!instructions.length) return false;
+
+    // 目标对象的原点不一定是左上角，以包围盒中心在父级坐标系中的位置为准保持视觉位置不变
+    const ownMatrix = target.calcOwnMatrix();
+    const oldPathOffset = { ...target.pathOffset };
+
+    target.path = instructions as unknown as fabric.Point[];
+    enableArcRender(target);
+
+    // 重新初始化以更新尺寸，持有指令引用避免被解析结果替换
+    target.initialize((fabric.util as any).joinPath(instructions));
+    target.path = instructions as unknown as fabric.Point[];
+
+    target.setPositionByOrigin(
+      fabric.util.transformPoint(
+        new fabric.Point(
+          target.pathOffset.x - oldPathOffset.x,
+          target.pathOffset.y - oldPathOffset.y,
+        ),
+        ownMatrix,
+      ),
+      'center',
+      'center',
+    );
+    target.setCoords();
+    target.canvas?.requestRenderAll();
+
+    return true;
   }
 
   /**
@@ -986,6 +2075,85 @@ class VizPath extends BaseEvent<{
     this._rerenderOriginPath(path.pathObject);
 
     this.fire('clear', [path]);
+    this._markChanged();
+  }
+
+  /**
+   * 记录当前所有路径的快照（指令与路径对象布局信息）
+   */
+  snapshot(): VizPathSnapshot {
+    return this.paths.map(({ segment, pathObject }) => ({
+      pathObject,
+      instructions: cloneDeep(segment.map((i) => i.instruction)),
+      ids: segment.map((i) => i.id),
+      nodeTypes: segment.map((i) => i.nodeType),
+      layout: {
+        left: pathObject.left!,
+        top: pathObject.top!,
+        width: pathObject.width!,
+        height: pathObject.height!,
+        pathOffset: { x: pathObject.pathOffset.x, y: pathObject.pathOffset.y },
+      },
+    }));
+  }
+
+  /**
+   * 恢复路径快照
+   *
+   * @note
+   *
+   * 仍存在的路径会尽量复用原有的路径节点对象，指令数量一致时仅原地更新指令，
+   * 以保证编辑器中的节点对象及选中状态不会因为恢复而重建。
+   */
+  restore(snapshot: VizPathSnapshot) {
+    return this._batch(() => {
+      // 移除快照中不存在的路径
+      this.paths
+        .filter((path) => !snapshot.some((i) => i.pathObject === path.pathObject))
+        .forEach((path) => this.clear(path.pathObject));
+
+      snapshot.forEach(({ pathObject, instructions, ids, nodeTypes, layout }) => {
+        const _instructions = cloneDeep(instructions);
+
+        // 先恢复布局信息，使重新渲染路径时修正的偏移基于快照时的状态
+        pathObject.set({
+          left: layout.left,
+          top: layout.top,
+          width: layout.width,
+          height: layout.height,
+        });
+        pathObject.pathOffset = new fabric.Point(layout.pathOffset.x, layout.pathOffset.y);
+
+        const path = this.getPath(pathObject);
+        if (path && path.segment.length === _instructions.length) {
+          path.segment.forEach((pathNode, index) => {
+            pathNode.id = ids[index];
+            pathNode.nodeType = nodeTypes[index];
+          });
+          this._updatePathByCommands(
+            path,
+            _instructions.map((instruction, index) => ({ type: 'update', index, instruction })),
+          );
+        } else if (path) {
+          const [newPath] = this.replacePathSegments(path, [_instructions]);
+          newPath.segment.forEach((pathNode, index) => {
+            pathNode.id = ids[index];
+            pathNode.nodeType = nodeTypes[index];
+          });
+        } else {
+          pathObject.path = _instructions as unknown as fabric.Point[];
+          const segment: PathNode[] = [];
+          _instructions.forEach((instruction, index) => {
+            segment.push({ id: ids[index], nodeType: nodeTypes[index], segment, instruction });
+          });
+          this.draw([{ segment, pathObject }]);
+        }
+      });
+
+      // 保持与快照一致的路径顺序
+      const order = snapshot.map((i) => i.pathObject);
+      this.paths.sort((a, b) => order.indexOf(a.pathObject) - order.indexOf(b.pathObject));
+    });
   }
 
   /**
@@ -1004,6 +2172,7 @@ class VizPath extends BaseEvent<{
     this._observers.clear();
 
     this.fire('clearAll');
+    this._markChanged();
   }
 
   /**
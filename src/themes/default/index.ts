@@ -1,5 +1,6 @@
 import { fabric } from 'fabric';
 import type { ThemeConfigurators } from '../../lib/modules/editor-ui/index.class';
+import { PathNodeType } from '../../lib/instruction';
 
 export type ThemeShareState = {
   hoverNode: fabric.Object | null;
@@ -8,6 +9,8 @@ export type ThemeShareState = {
   selectedNodes: fabric.Object[];
   selectedPoint: fabric.Object | null;
   selectedLine: fabric.Line | null;
+  lockedObjects: fabric.Object[];
+  nodeTypes: Map<fabric.Object, `${PathNodeType}`>;
 };
 
 const defaultTheme = ((editor, shareState) => {
@@ -25,6 +28,14 @@ const defaultTheme = ((editor, shareState) => {
     shareState.selectedLine = null;
   });
 
+  editor.on('lock', (objects: fabric.Object[]) => {
+    shareState.lockedObjects = objects;
+  });
+
+  editor.on('nodeType', (nodeTypes: Map<fabric.Object, `${PathNodeType}`>) => {
+    shareState.nodeTypes = nodeTypes;
+  });
+
   return {
     path: (decorator, pathObject) => {
       pathObject.set({
@@ -35,9 +46,13 @@ const defaultTheme = ((editor, shareState) => {
       });
     },
     node: (decorator) => {
-      const object = new fabric.Circle({
+      // 尖角节点为方形，平滑节点为圆形，对称节点为菱形
+      const object = new fabric.Rect({
         strokeWidth: 4,
-        radius: 6,
+        width: 12,
+        height: 12,
+        rx: 6,
+        ry: 6,
         fill: '#ffffff',
         stroke: '#4b4b4b',
       });
@@ -55,12 +70,17 @@ const defaultTheme = ((editor, shareState) => {
       });
 
       return decorator(object, () => {
+        const nodeType = shareState.nodeTypes?.get(object) ?? PathNodeType.CORNER;
         object.set({
+          rx: nodeType === 'smooth' ? 6 : 0,
+          ry: nodeType === 'smooth' ? 6 : 0,
+          angle: nodeType === 'symmetric' ? 45 : 0,
           fill: shareState.selectedNodes?.includes(object)
             ? '#29ca6e'
             : shareState.hoverNode === object
               ? '#7ef4ad'
               : '#ffffff',
+          stroke: shareState.lockedObjects?.includes(object) ? '#bebebe' : '#4b4b4b',
         });
       });
     },
@@ -86,6 +106,7 @@ const defaultTheme = ((editor, shareState) => {
 
       return decorator(circle, () => {
         circle.set({
+          fill: shareState.lockedObjects?.includes(circle) ? '#ffffff' : '#bebebe',
           stroke: shareState.selectedPoint === circle ? '#333' : '#bebebe',
         });
       });
@@ -103,6 +124,24 @@ const defaultTheme = ((editor, shareState) => {
         });
       });
     },
+    guide: () => {
+      const line = new fabric.Line([0, 0, 0, 0], {
+        stroke: '#f5427b',
+        strokeWidth: 1,
+      });
+
+      return line;
+    },
+    guideLabel: () => {
+      const text = new fabric.Text('', {
+        fontSize: 10,
+        fontFamily: 'sans-serif',
+        fill: '#ffffff',
+        backgroundColor: '#f5427b',
+      });
+
+      return text;
+    },
   };
 }) as ThemeConfigurators<ThemeShareState>;
 
@@ -1,10 +1,13 @@
 import { fabric } from 'fabric';
 import type { ThemeConfigurators } from '../../lib/modules/editor-ui/index.class';
+import { PathNodeType } from '../../lib/instruction';
 
 export type ThemeShareState = {
   selectedNodes: fabric.Object[];
   selectedPoint: fabric.Object | null;
   selectedLine: fabric.Line | null;
+  lockedObjects: fabric.Object[];
+  nodeTypes: Map<fabric.Object, `${PathNodeType}`>;
 };
 
 const photoshopTheme = ((editor, shareState) => {
@@ -22,6 +25,14 @@ const photoshopTheme = ((editor, shareState) => {
     shareState.selectedLine = null;
   });
 
+  editor.on('lock', (objects: fabric.Object[]) => {
+    shareState.lockedObjects = objects;
+  });
+
+  editor.on('nodeType', (nodeTypes: Map<fabric.Object, `${PathNodeType}`>) => {
+    shareState.nodeTypes = nodeTypes;
+  });
+
   return {
     path: (decorator, pathObject) => {
       pathObject.set({
@@ -38,9 +49,15 @@ const photoshopTheme = ((editor, shareState) => {
         strokeWidth: 1,
       });
 
+      // 尖角节点为方形，平滑节点为圆形，对称节点为菱形
       return decorator(rect, () => {
+        const nodeType = shareState.nodeTypes?.get(rect) ?? PathNodeType.CORNER;
         rect.set({
+          rx: nodeType === 'smooth' ? 3 : 0,
+          ry: nodeType === 'smooth' ? 3 : 0,
+          angle: nodeType === 'symmetric' ? 45 : 0,
           fill: shareState.selectedNodes?.includes(rect) ? '#1884ec' : '#ffffff',
+          stroke: shareState.lockedObjects?.includes(rect) ? '#bebebe' : '#1784ec',
         });
       });
     },
@@ -55,6 +72,7 @@ const photoshopTheme = ((editor, shareState) => {
       return decorator(circle, () => {
         circle.set({
           fill: shareState.selectedPoint === circle ? '#1884ec' : '#ffffff',
+          stroke: shareState.lockedObjects?.includes(circle) ? '#bebebe' : '#1884ec',
         });
       });
     },
@@ -66,6 +84,24 @@ const photoshopTheme = ((editor, shareState) => {
 
       return line;
     },
+    guide: () => {
+      const line = new fabric.Line([0, 0, 0, 0], {
+        stroke: '#ff00ff',
+        strokeWidth: 1,
+      });
+
+      return line;
+    },
+    guideLabel: () => {
+      const text = new fabric.Text('', {
+        fontSize: 10,
+        fontFamily: 'sans-serif',
+        fill: '#ffffff',
+        backgroundColor: '#ff00ff',
+      });
+
+      return text;
+    },
   };
 }) as ThemeConfigurators<ThemeShareState>;
 